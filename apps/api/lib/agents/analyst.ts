@@ -1,15 +1,62 @@
 
 import { BaseAgent, type AgentState } from "./core/base";
 import { getGithubTools } from "./tools/github";
-import { repoAnalysis } from "../../../db/schema";
+import type { ManifestFacts, RepoHealthMetrics } from "./tools/github/types";
+import { formatManifestFacts, parseManifests, selectManifestPaths } from "./tools/github/manifests";
+import { formatRepoHealth } from "./tools/github/metrics";
+import { BudgetExhaustedError } from "./core/budget";
+import type { AbortableAnalyst, AnalystAbortReason } from "./core/analysts";
+import { repoAnalysis, repoAnalysisCache, repoFileCache } from "../../../db/schema";
 import { z } from "zod";
-import { and, eq } from "drizzle-orm";
+import { and, eq, gt } from "drizzle-orm";
+import { AnalystCommand } from "@repo/ws-protocol/agent";
+import { indexRepository } from "../repo-index";
 
 interface AnalystState extends AgentState {
     correction?: string;
+    // Why the orchestrator asked this analyst to stop; cleared by the next run().
+    aborted?: AnalystAbortReason;
 }
 
-export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
+export interface AnalystRunOptions {
+    // The judge's instruction when a rejected analysis is redone.
+    enrichment?: string;
+    // Reuse a cached analysis of the same HEAD commit younger than this; 0 disables the cache.
+    cacheTtlHours?: number;
+}
+
+type CachedAnalysis = typeof repoAnalysisCache.$inferSelect;
+
+// Tool-calling turns an analyst may spend reading files of its own choosing.
+const EXPLORATION_MAX_STEPS = 4;
+
+// Longer READMEs and manifests are cached cut off at this length.
+const MAX_CACHED_FILE_CHARS = 100_000;
+
+// Everything but the dependency list, which gets its own column.
+function toolingFacts(manifests: ManifestFacts): Omit<ManifestFacts, "dependencies"> {
+    return {
+        files: manifests.files,
+        ecosystems: manifests.ecosystems,
+        tooling: manifests.tooling,
+        runtimes: manifests.runtimes,
+        containerImages: manifests.containerImages,
+        ciActions: manifests.ciActions,
+        cloudflareBindings: manifests.cloudflareBindings,
+    };
+}
+
+/**
+ * Thrown between analysis steps once the orchestrator has asked this analyst to stop.
+ */
+class AnalysisAbortedError extends Error {
+    constructor() {
+        super("Analysis aborted by orchestrator");
+        this.name = "AnalysisAbortedError";
+    }
+}
+
+export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> implements AbortableAnalyst {
     agentName = "GithubAnalystAgent";
 
     protected defineTools() {
@@ -35,10 +82,19 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
     override async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
         try {
             const text = typeof message === "string" ? message : new TextDecoder().decode(message);
-            const obj = JSON.parse(text);
+            const command = AnalystCommand.safeParse(JSON.parse(text));
+            if (!command.success) {
+                ws.send(JSON.stringify({ type: "error", message: `Invalid message: ${command.error.message}` }));
+                return;
+            }
 
-            if (obj?.type === "correction") {
-                this.setState({ ...this.state, correction: obj.message });
+            if (command.data.type === "correction") {
+                this.setState({ ...this.state, correction: command.data.message });
+                ws.send(JSON.stringify({ type: "ack" }));
+            }
+
+            if (command.data.type === "abort") {
+                await this.abort(command.data.reason);
                 ws.send(JSON.stringify({ type: "ack" }));
             }
         } catch (e: any) {
@@ -46,7 +102,31 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
         }
     }
 
-    async run(requestId: string, repoUrl: string, userQuery: string): Promise<void> {
+    /**
+     * Stops the analysis in progress at its next step. The orchestrator calls this
+     * on every analyst of a search that is paused or cancelled.
+     */
+    async abort(reason: AnalystAbortReason): Promise<void> {
+        this.setState({ ...this.state, aborted: reason });
+    }
+
+    private throwIfAborted() {
+        if (this.state?.aborted) {
+            throw new AnalysisAbortedError();
+        }
+    }
+
+    /**
+     * Analyzes `repoUrl` for the request and stores the result in repo_analysis.
+     * A fresh cached analysis of the repository's current HEAD is only re-ranked
+     * against `userQuery`. With an `enrichment` instruction from the judge, an
+     * existing analysis is redone with that instruction (and any files it points
+     * at) and updated in place.
+     */
+    async run(requestId: string, repoUrl: string, userQuery: string, options: AnalystRunOptions = {}): Promise<void> {
+        const { enrichment, cacheTtlHours = 0 } = options;
+        // A fresh dispatch (e.g. after the search was resumed) clears any earlier abort.
+        this.setState({ ...this.state, aborted: undefined });
         await this.status(requestId, "analyzing");
         await this.logRequest(requestId, "info", `Analyzing repository: ${repoUrl}`);
         const db = this.env.DB;
@@ -59,7 +139,7 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
                 ),
             });
 
-            if (existingAnalysis) {
+            if (existingAnalysis && !enrichment) {
                 await this.logRequest(requestId, "info", `Skipping analysis for ${repoUrl}, already analyzed.`);
                 return;
             }
@@ -77,7 +157,35 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
             const repoDetails = await this.tools.github_get_repo.execute({
                 owner,
                 repo,
-            });
+            }) as { default_branch: string, stargazers_count: number };
+
+            const headSha = await (this.tools.github_get_head_sha.execute({
+                owner,
+                repo,
+                branch: repoDetails.default_branch,
+            }) as Promise<string>).catch(() => null);
+
+            // A fresh analysis of the same commit only needs ranking against this query.
+            if (headSha && !enrichment && cacheTtlHours > 0) {
+                const cached = await db.query.repoAnalysisCache.findFirst({
+                    where: and(
+                        eq(repoAnalysisCache.repoUrl, repoUrl),
+                        eq(repoAnalysisCache.headSha, headSha),
+                        gt(repoAnalysisCache.analyzedAt, new Date(Date.now() - cacheTtlHours * 3_600_000))
+                    ),
+                });
+                if (cached) {
+                    await this.rerank(requestId, repoUrl, userQuery, cached, repoDetails.stargazers_count);
+                    return;
+                }
+            }
+
+            // Health metrics inform the ranking but are not worth failing the analysis over.
+            const health = await (this.tools.github_get_repo_health.execute({
+                owner,
+                repo,
+            }) as Promise<RepoHealthMetrics>).catch(() => null);
+            this.throwIfAborted();
 
 
             // 2. Analyze the repository content.
@@ -85,13 +193,50 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
                 owner,
                 repo,
                 path: "README.md",
-            });
+            }) as string;
 
-            const packageJsonContent = await this.tools.github_read_file.execute({
+            // The tree tells us which ecosystems are in play, so only manifests that exist are read.
+            const tree = await this.tools.github_get_tree.execute({
                 owner,
                 repo,
-                path: "package.json",
-            }).catch(() => null); // Ignore errors if package.json doesn't exist.
+                ref: repoDetails.default_branch,
+            }) as { paths: string[], truncated: boolean };
+            const manifestFiles: { path: string, content: string }[] = [];
+            for (const path of selectManifestPaths(tree.paths)) {
+                const content = await (this.tools.github_read_file.execute({
+                    owner,
+                    repo,
+                    path,
+                }) as Promise<string>).catch(() => null); // Ignore files that can't be read (e.g. submodules).
+                if (content) {
+                    manifestFiles.push({ path, content });
+                }
+            }
+            const manifests = parseManifests(manifestFiles);
+            await this.cacheRepoFiles(repoUrl, headSha, [
+                { path: "README.md", kind: "readme", content: readmeContent },
+                ...manifestFiles.map((f) => ({ ...f, kind: "manifest" })),
+            ]);
+            this.throwIfAborted();
+
+            const enrichmentFiles: { path: string, content: string }[] = [];
+            if (enrichment) {
+                for (const path of await this.planEnrichmentReads(repoUrl, enrichment)) {
+                    const content = await (this.tools.github_read_file.execute({
+                        owner,
+                        repo,
+                        path,
+                    }) as Promise<string>).catch(() => null); // The judge may point at files that don't exist.
+                    if (content) {
+                        enrichmentFiles.push({ path, content });
+                    }
+                }
+                this.throwIfAborted();
+            }
+
+            // Let the model read further files it expects to be telling (entry points, config, docs).
+            const explorationNotes = await this.exploreRepository(requestId, owner, repo, userQuery, tree.paths);
+            this.throwIfAborted();
 
 
             // 3. Generate analysis.
@@ -102,16 +247,50 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
                 ---
                 ${readmeContent}
                 ---
-                package.json:
+                Repository layout (${tree.paths.length} files${tree.truncated ? ", listing truncated" : ""}, first 200 shown):
+                ---
+                ${tree.paths.slice(0, 200).join("\n")}
+                ---
+                Dependency and tooling facts:
+                ---
+                ${formatManifestFacts(manifests)}
+                ---
+                Health metrics:
                 ---
-                ${packageJsonContent || "Not found"}
+                ${formatRepoHealth(health)}
                 ---
+                ${explorationNotes ? `
+                Notes from further files read in the repository:
+                ---
+                ${explorationNotes}
+                ---` : ""}
                 ${this.state.correction ? `Correction from orchestrator: ${this.state.correction}` : ""}
+                ${enrichment ? `
+                Your previous analysis of this repository was rejected by the reviewer.
+                Previous analysis:
+                ---
+                ${JSON.stringify({
+                    ai_ranking: existingAnalysis?.aiRanking,
+                    ai_summary: existingAnalysis?.aiSummary,
+                    ai_pros_cons: existingAnalysis?.aiProsCons,
+                    tech_stack: existingAnalysis?.techStack,
+                }, null, 2)}
+                ---
+                Reviewer's reason: ${existingAnalysis?.judgeReasoning ?? "Not given"}
+                Reviewer's enrichment instruction: ${enrichment}
+                ${enrichmentFiles.map((f) => `
+                ${f.path}:
+                ---
+                ${f.content}
+                ---`).join("\n")}
+                Address the instruction explicitly in your new analysis.
+                ` : ""}
 
                 Based on the information above, please provide a detailed analysis of this repository.
                 - How relevant is this repository to the user's query?
+                - Is it actively maintained? Weigh the health metrics: an archived, stale or single-maintainer repository should rank lower.
                 - What is the primary purpose of this repository?
-                - What is the tech stack?
+                - What is the tech stack? Base it on the dependency and tooling facts, not only the README.
                 - What are the pros and cons of this repository?
 
                 Provide your analysis as a JSON object with the following structure:
@@ -135,9 +314,54 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
                 }),
                 tech_stack: z.array(z.string()),
             }));
+            this.throwIfAborted();
+
 
+            // 4. Save the analysis to the database, and to the cache for later requests.
+            const facts = {
+                aiSummary: analysis.ai_summary,
+                aiProsCons: analysis.ai_pros_cons,
+                stars: repoDetails.stargazers_count,
+                techStack: analysis.tech_stack,
+                dependencies: manifests.dependencies,
+                tooling: toolingFacts(manifests),
+                health,
+            };
+
+            if (headSha) {
+                await db.insert(repoAnalysisCache).values({
+                    repoUrl,
+                    headSha,
+                    ...facts,
+                }).onConflictDoUpdate({
+                    target: [repoAnalysisCache.repoUrl, repoAnalysisCache.headSha],
+                    set: { ...facts, analyzedAt: new Date() },
+                });
+            }
+
+            // Similarity search is a nicety; a failed embedding must not lose the analysis.
+            await indexRepository(this.env, repoUrl, facts, readmeContent)
+                .catch((e: unknown) => this.logRequest(requestId, "warn", `Indexing ${repoUrl} for similarity search failed.`, {
+                    error: e instanceof Error ? e.message : String(e),
+                }));
+
+            if (existingAnalysis && enrichment) {
+                await db.update(repoAnalysis).set({
+                    agentId: this.agentName,
+                    status: "complete",
+                    aiRanking: analysis.ai_ranking,
+                    ...facts,
+                    headSha,
+                    judgeVerdict: null,
+                    enrichmentRequest: enrichment,
+                    enrichmentRounds: existingAnalysis.enrichmentRounds + 1,
+                }).where(eq(repoAnalysis.id, existingAnalysis.id));
+
+                await this.status(requestId, "complete");
+                await this.logRequest(requestId, "info", "Enrichment complete.");
+                return;
+            }
 
-            // 4. Save the analysis to the database.
             await db.insert(repoAnalysis).values({
                 id: crypto.randomUUID(),
                 requestId,
@@ -145,10 +369,8 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
                 agentId: this.agentName,
                 status: "complete",
                 aiRanking: analysis.ai_ranking,
-                aiSummary: analysis.ai_summary,
-                aiProsCons: analysis.ai_pros_cons,
-                stars: repoDetails.stargazers_count,
-                techStack: analysis.tech_stack,
+                ...facts,
+                headSha,
             });
 
 
@@ -156,8 +378,148 @@ export class GithubAnalystAgent extends BaseAgent<Env, AnalystState> {
             await this.logRequest(requestId, "info", "Analysis complete.");
 
         } catch (error: any) {
+            if (error instanceof AnalysisAbortedError) {
+                await this.status(requestId, "cancelled");
+                await this.logRequest(requestId, "warn", `Analysis of ${repoUrl} aborted: search ${this.state.aborted}.`);
+                return;
+            }
+            if (error instanceof BudgetExhaustedError) {
+                // The orchestrator picks the recorded reason up and wraps the search up.
+                await this.status(requestId, "budget_exhausted", error.reason);
+                await this.logRequest(requestId, "warn", `Analysis of ${repoUrl} stopped: budget exhausted.`, { reason: error.reason });
+                return;
+            }
             await this.status(requestId, "error", error.message);
             await this.logRequest(requestId, "error", "Analysis failed", { error: error.message });
         }
     }
+
+    /**
+     * Ranks a cached analysis against this request's query without refetching
+     * any files, and stores it as this request's repo_analysis row.
+     */
+    private async rerank(requestId: string, repoUrl: string, userQuery: string, cached: CachedAnalysis, stars: number): Promise<void> {
+        const prompt = `
+            Original user query: "${userQuery}"
+            Repository: ${repoUrl}
+            An earlier analysis of this repository at the same commit:
+            ---
+            ${JSON.stringify({
+                ai_summary: cached.aiSummary,
+                ai_pros_cons: cached.aiProsCons,
+                tech_stack: cached.techStack,
+            }, null, 2)}
+            ---
+            Health metrics:
+            ---
+            ${formatRepoHealth(cached.health as RepoHealthMetrics | null)}
+            ---
+            ${this.state.correction ? `Correction from orchestrator: ${this.state.correction}` : ""}
+
+            How relevant is this repository to the user's query?
+            Weigh the health metrics: an archived, stale or single-maintainer repository should rank lower.
+
+            Provide your answer as a JSON object with the following structure:
+            {
+                "ai_ranking": number // A number between 1 and 100, where 100 is most relevant.
+            }
+        `;
+        const { ai_ranking } = await this.generateStructured(prompt, z.object({
+            ai_ranking: z.number(),
+        }));
+        this.throwIfAborted();
+
+        await this.env.DB.insert(repoAnalysis).values({
+            id: crypto.randomUUID(),
+            requestId,
+            repoUrl,
+            agentId: this.agentName,
+            status: "complete",
+            aiRanking: ai_ranking,
+            aiSummary: cached.aiSummary,
+            aiProsCons: cached.aiProsCons,
+            stars,
+            techStack: cached.techStack,
+            dependencies: cached.dependencies,
+            tooling: cached.tooling,
+            health: cached.health,
+            headSha: cached.headSha,
+            cacheId: cached.id,
+        });
+
+        await this.status(requestId, "complete");
+        await this.logRequest(requestId, "info", `Re-ranked cached analysis of ${repoUrl} from ${cached.analyzedAt.toISOString()}.`);
+    }
+
+    /**
+     * Keeps the README and manifests just read, so follow-up chat can quote and
+     * cite them without going back to GitHub. Caching is best effort.
+     */
+    private async cacheRepoFiles(repoUrl: string, headSha: string | null, files: { path: string, kind: string, content: string }[]) {
+        for (const file of files) {
+            const values = {
+                kind: file.kind,
+                content: file.content.slice(0, MAX_CACHED_FILE_CHARS),
+                headSha,
+                fetchedAt: new Date(),
+            };
+            await this.env.DB.insert(repoFileCache)
+                .values({ repoUrl, path: file.path, ...values })
+                .onConflictDoUpdate({
+                    target: [repoFileCache.repoUrl, repoFileCache.path],
+                    set: values,
+                })
+                .catch((error: unknown) => this.logEvent("system", `Failed to cache ${repoUrl}/${file.path}`, {
+                    actionType: "ERROR",
+                    status: "FAILURE",
+                    error: error instanceof Error ? error.message : String(error),
+                }));
+        }
+    }
+
+    /**
+     * Asks the model which repository files would satisfy the judge's enrichment
+     * instruction (e.g. "read the CHANGELOG" -> CHANGELOG.md). Capped at three.
+     */
+    private async planEnrichmentReads(repoUrl: string, enrichment: string): Promise<string[]> {
+        const prompt = `
+            A reviewer asked for more information about the repository ${repoUrl}:
+            "${enrichment}"
+            List up to 3 file paths in the repository (relative to its root) that are most likely
+            to contain that information, e.g. "CHANGELOG.md" or ".github/workflows/ci.yml".
+            Return a JSON array of strings, or an empty array if no file would help.
+        `;
+        const paths = await this.generateStructured(prompt, z.array(z.string())).catch(() => []);
+        return paths.slice(0, 3);
+    }
+
+    /**
+     * Lets the model read files of its own choosing (up to EXPLORATION_MAX_STEPS
+     * tool-calling turns) and returns its notes on them. Exploration is optional:
+     * anything but an exhausted budget only costs the notes.
+     */
+    private async exploreRepository(requestId: string, owner: string, repo: string, userQuery: string, paths: string[]): Promise<string> {
+        const prompt = `
+            You are assessing the GitHub repository ${owner}/${repo} for this user query: "${userQuery}"
+            You have already seen its README and dependency manifests. Its layout (first 200 files):
+            ---
+            ${paths.slice(0, 200).join("\n")}
+            ---
+            Read the few files that best show how the repository actually works and how well it fits the
+            query, e.g. the main entry point, core modules or configuration. Only read files of ${owner}/${repo}.
+            Then write concise notes on what you found: architecture, notable implementation details and
+            anything that contradicts or goes beyond the README.
+        `;
+        try {
+            const result = await this.runWithTools(prompt, {
+                tools: ["github_read_file", "github_list_files"],
+                maxSteps: EXPLORATION_MAX_STEPS,
+            });
+            return result.text;
+        } catch (error) {
+            if (error instanceof BudgetExhaustedError) throw error;
+            await this.logRequest(requestId, "warn", `Exploration of ${owner}/${repo} failed.`, { error: String(error) });
+            return "";
+        }
+    }
 }
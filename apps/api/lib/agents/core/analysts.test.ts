@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  abortAnalysts,
+  analystName,
+  type AbortableAnalyst,
+  type AnalystAbortReason,
+} from "./analysts";
+
+// An analyst whose run only ends once it is told to stop.
+class FakeAnalyst implements AbortableAnalyst {
+  aborted?: AnalystAbortReason;
+  private stop?: () => void;
+
+  run(): Promise<AnalystAbortReason | undefined> {
+    return new Promise((resolve) => {
+      this.stop = () => resolve(this.aborted);
+    });
+  }
+
+  async abort(reason: AnalystAbortReason) {
+    this.aborted = reason;
+    this.stop?.();
+  }
+}
+
+function analystsFor(repoUrls: string[]) {
+  const analysts = new Map(repoUrls.map((url) => [url, new FakeAnalyst()]));
+  return {
+    analysts,
+    analystFor: (repoUrl: string) => analysts.get(repoUrl)!,
+  };
+}
+
+describe("analystName", () => {
+  it("names the analyst after the request and the repo", () => {
+    expect(analystName("req-1", "https://github.com/acme/api")).toBe(
+      "req-1-https://github.com/acme/api",
+    );
+  });
+});
+
+describe("abortAnalysts", () => {
+  it("stops the analysts still running when a search is paused mid-supervision", async () => {
+    const repoUrls = [
+      "https://github.com/acme/api",
+      "https://github.com/acme/web",
+      "https://github.com/acme/cli",
+    ];
+    const { analysts, analystFor } = analystsFor(repoUrls);
+    // Two analysts are dispatched, the third repo is still queued.
+    const running = repoUrls.slice(0, 2).map((url) => analystFor(url).run());
+
+    const unreachable = await abortAnalysts(repoUrls, analystFor, "paused");
+
+    expect(unreachable).toEqual([]);
+    expect(await Promise.all(running)).toEqual(["paused", "paused"]);
+    expect(analysts.get(repoUrls[2])!.aborted).toBe("paused");
+  });
+
+  it("also stops an analyst redoing a rejected analysis", async () => {
+    const repoUrl = "https://github.com/acme/api";
+    const { analystFor } = analystsFor([repoUrl]);
+    const enrichment = analystFor(repoUrl).run();
+
+    await abortAnalysts([repoUrl], analystFor, "cancelled");
+
+    expect(await enrichment).toBe("cancelled");
+  });
+
+  it("reaches every analyst and returns the ones that failed", async () => {
+    const repoUrls = [
+      "https://github.com/acme/api",
+      "https://github.com/acme/web",
+    ];
+    const { analysts, analystFor } = analystsFor(repoUrls);
+    const unreachable: AbortableAnalyst = {
+      abort: async () => {
+        throw new Error("Durable Object reset");
+      },
+    };
+
+    const failed = await abortAnalysts(
+      repoUrls,
+      (url) => (url === repoUrls[0] ? unreachable : analystFor(url)),
+      "cancelled",
+    );
+
+    expect(failed).toEqual([repoUrls[0]]);
+    expect(analysts.get(repoUrls[1])!.aborted).toBe("cancelled");
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * -----------------------------------------------------------------------------
+ * FILE: analysts.ts
+ * MODULE: Core
+ * -----------------------------------------------------------------------------
+ * DESCRIPTION:
+ * Addressing the per-repo analyst Durable Objects of a search and stopping
+ * them when the search is paused or cancelled.
+ *
+ * PURPOSE:
+ * The orchestrator dispatches one analyst per repository, both during
+ * supervision and again for the judge's enrichment rounds. A halt has to reach
+ * every one of them, including analysts dispatched by an orchestrator
+ * instance that has since been evicted, so they are addressed by name rather
+ * than through connections held in memory.
+ *
+ * KEY COMPONENTS:
+ * - analystName: The Durable Object name of a request's analyst for a repo.
+ * - abortAnalysts: Calls abort() on the analyst of every given repo.
+ * -----------------------------------------------------------------------------
+ */
+
+export type AnalystAbortReason = "paused" | "cancelled";
+
+/**
+ * The part of GithubAnalystAgent's RPC surface used to stop it.
+ */
+export interface AbortableAnalyst {
+  abort(reason: AnalystAbortReason): Promise<void>;
+}
+
+export function analystName(requestId: string, repoUrl: string): string {
+  return `${requestId}-${repoUrl}`;
+}
+
+/**
+ * Asks the analyst of each repo to stop. Every analyst is called even if some
+ * fail, so one unreachable analyst does not keep the others running; the
+ * repos whose analyst could not be reached are returned.
+ */
+export async function abortAnalysts(
+  repoUrls: string[],
+  analystFor: (repoUrl: string) => AbortableAnalyst,
+  reason: AnalystAbortReason,
+): Promise<string[]> {
+  const results = await Promise.allSettled(
+    repoUrls.map((repoUrl) => analystFor(repoUrl).abort(reason)),
+  );
+  return repoUrls.filter((_, i) => results[i].status === "rejected");
+}
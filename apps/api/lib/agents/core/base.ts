@@ -15,9 +15,14 @@
 
 // 1. Import Agent from the SDK
 import { Agent } from "agents";
-import { schema } from "../../db";
+import * as schema from "../../db/schema";
 import type { SearchRequest } from "../../zod-schema";
 import { getAllTools } from "../tools/index";
+import {
+  AgentEvent,
+  type AgentEventPayload,
+  type AgentEventType,
+} from "@repo/ws-protocol/agent";
 
 // 2. Schema & Validation
 import { z } from "@hono/zod-openapi";
@@ -32,33 +37,72 @@ import {
     queryGemini,
     queryGeminiStructured,
     queryGeminiVision,
+    queryGeminiWithTools,
+    streamGemini,
 } from "../../ai/providers/gemini";
 import {
     queryOpenAI,
     queryOpenAIStructured,
     queryOpenAIVision,
+    queryOpenAIWithTools,
+    streamOpenAI,
 } from "../../ai/providers/openai";
 import {
     generateEmbedding,
     generateVision,
+    generateWithTools,
+    streamWorkerAI,
 } from "../../ai/providers/worker-ai";
 import {
     cleanAiJsonOutput,
     convertHonoZodToAiJsonSchema,
     sanitizeAndFormatAiResponse,
 } from "../../ai/utils";
+import { getPriceTable, UsageMeter } from "../../ai/usage";
+import {
+    DEFAULT_RETRY_POLICY,
+    getFallbackChain,
+    withFallback,
+    type AIProvider,
+    type FallbackResult,
+    type RetryPolicy,
+} from "../../ai/fallback";
+import {
+    toParametersSchema,
+    type ToolDeclaration,
+    type ToolMessage,
+    type ToolStep,
+} from "../../ai/tool-calling";
+import { BudgetExhaustedError, findExhaustedLimit, type RequestBudget } from "./budget";
+import { KNOWLEDGE_KINDS, SearchService, type KnowledgeKind } from "../../search";
 
 // 5. Types
-import type { AgentState, LogOptions, VisionInput } from "./types";
+import type {
+    AgentState,
+    AgentTool,
+    LogOptions,
+    StreamTextOptions,
+    ToolLoopOptions,
+    ToolLoopResult,
+    VisionInput,
+} from "./types";
 
 export type {
     AgentState,
     LogOptions,
     SearchRequest,
     SodaDatasetKey,
+    StreamTextOptions,
+    ToolLoopOptions,
+    ToolLoopResult,
     VisionInput
 };
 
+// Tool-calling turns runWithTools allows by default before it asks for a final answer.
+const DEFAULT_MAX_TOOL_STEPS = 8;
+// Tool results fed back to the model are cut at this length.
+const MAX_TOOL_RESULT_CHARS = 20_000;
+
 // Import shared utilities to expose on BaseAgent
     import { getSandbox } from "@cloudflare/sandbox";
     import type { SodaDatasetKey } from "../tools";
@@ -109,12 +153,16 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     return tools.dbi.classifyIntent(env, query);
   }
 
-  // -- LOGGING (Prisma) --
+  // -- LOGGING (D1) --
+
+  // The request the agent is currently working for. Search agents are one Durable
+  // Object per request, so the last request seen by logRequest/progress/status is it.
+  private activeRequestId?: string;
 
   /**
    * Centralized Observability Log
-   * Records every thought, action, and result to D1 for auditing and debugging.
-   * Uses Prisma (D1) instead of Agent SQL for centralized analytics.
+   * Records every thought, action, and result to D1 (agent_events) for auditing
+   * and debugging; see GET /api/agent/requests/{id}/trace.
    */
   protected async logEvent(
     role: string,
@@ -122,33 +170,18 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     options: LogOptions = {},
   ) {
     try {
-      // const adapter = new PrismaD1(this.env.DB);
-      // const prisma = new PrismaClient({ adapter });
-
-      /*
-            await prisma.chatLog.create({
-                data: {
-                    agentId: this.agentName,
-                    role,
-                    content,
-                    engagementId: options.engagementId || this.state.engagementId,
-                    // @ts-ignore - Check if workflowId exists in state type, otherwise optional
-                    workflowId: options.workflowId || (this.state as any).workflowId,
-
-                    actionType: options.actionType || "MESSAGE",
-                    toolName: options.toolName,
-                    toolArgs: options.toolArgs ? JSON.stringify(options.toolArgs) : null,
-
-                    provider: options.provider,
-                    model: options.model,
-                    latencyMs: options.latencyMs,
-
-                    metadataJson: options.metadataJson || JSON.stringify(options),
-                    status: options.status || "SUCCESS",
-                    error: options.error
-                }
-            });
-            */
+      const { requestId, workflowId, metadataJson, ...event } = options;
+      const engagementId = event.engagementId ?? this.state?.engagementId;
+      await schema.appendAgentEvent(this.env, {
+        ...event,
+        requestId: requestId ?? this.activeRequestId ?? null,
+        agent: this.agentName,
+        role,
+        content,
+        metadataJson:
+          metadataJson ??
+          (engagementId || workflowId ? JSON.stringify({ engagementId, workflowId }) : undefined),
+      });
       console.log(`[${this.agentName}] [${role}]: ${content.slice(0, 100)}...`);
     } catch (e) {
       // Fallback to console if DB fails - critical not to crash the agent just because logging failed
@@ -267,71 +300,159 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
   // The Agent SDK automatically provides `this.state` (getter) and `this.setState()`
   // We do not need to manually implement loadState/saveState.
 
+  // -- BUDGET --
+
+  /**
+   * Throws BudgetExhaustedError if the active request has a budget and any of
+   * its limits is used up. Tokens and cost are summed from agent_events, GitHub
+   * calls and the start time come from request_budgets, so the spend of every
+   * agent on the request counts. Returns the budget row, if there is one.
+   */
+  protected async enforceBudget() {
+    const requestId = this.activeRequestId;
+    if (!requestId) return undefined;
+    const budget = await schema.getRequestBudget(this.env, requestId);
+    if (!budget) return undefined;
+    if (budget.exhaustedReason) {
+      throw new BudgetExhaustedError(budget.exhaustedReason);
+    }
+
+    const limits = JSON.parse(budget.limitsJson) as RequestBudget;
+    const usage =
+      limits.maxTokens !== undefined || limits.maxCostUsd !== undefined
+        ? await schema.summarizeRequestUsage(this.env, requestId)
+        : undefined;
+    const reason = findExhaustedLimit(limits, {
+      tokens: usage ? usage.inputTokens + usage.outputTokens : 0,
+      costUsd: usage?.costUsd ?? 0,
+      githubCalls: budget.githubCalls,
+      elapsedMinutes: (Date.now() - budget.startedAt.getTime()) / 60_000,
+    });
+    if (reason) {
+      await schema.markBudgetExhausted(this.env, requestId, reason);
+      await this.logEvent("system", `Budget exhausted: ${reason}`, {
+        actionType: "ERROR",
+        status: "FAILURE",
+      });
+      throw new BudgetExhaustedError(reason);
+    }
+    return budget;
+  }
+
   // -- HYBRID AI GENERATION --
 
+  // Tried in order after the requested provider when it fails; undefined uses AI_FALLBACK_CHAIN (see ai/fallback.ts).
+  protected fallbackChain?: AIProvider[];
+  protected retryPolicy: RetryPolicy = DEFAULT_RETRY_POLICY;
+
+  /** The provider and model that answered the agent's latest generation, and how many attempts it took. */
+  public lastGeneration?: { provider: AIProvider; model?: string; attempts: number };
+
+  /**
+   * Runs `call` with `provider`, falling back along the agent's chain with
+   * retries and circuit breaking. Every failed or skipped attempt is logged as
+   * it happens; the answering attempt is logged by the caller with the response.
+   */
+  private async withProviderFallback<T>(
+    provider: AIProvider,
+    call: (provider: AIProvider) => Promise<T>,
+  ): Promise<FallbackResult<T>> {
+    const chain = getFallbackChain(this.env, provider, this.fallbackChain);
+    return withFallback(chain, this.retryPolicy, call, async (attempt) => {
+      if (attempt.ok) return;
+      await this.logEvent(
+        "assistant",
+        attempt.skipped
+          ? `Skipped ${attempt.provider}: circuit open`
+          : `Attempt ${attempt.attempt} with ${attempt.provider} failed`,
+        {
+          provider: attempt.provider,
+          actionType: "ERROR",
+          status: "FAILURE",
+          error: attempt.error,
+          latencyMs: attempt.latencyMs,
+          metadataJson: JSON.stringify({
+            attempt: attempt.attempt,
+            retryable: attempt.retryable,
+            retryInMs: attempt.retryInMs,
+            skipped: attempt.skipped,
+          }),
+        },
+      );
+    });
+  }
+
+  /**
+   * Records which provider/model answered a generation and returns the fields
+   * for its response log event.
+   */
+  private recordGeneration(
+    requested: AIProvider,
+    modelName: string | undefined,
+    result: FallbackResult<unknown>,
+    usage: UsageMeter,
+  ) {
+    const model = usage.model ?? (result.provider === requested ? modelName : undefined);
+    this.lastGeneration = { provider: result.provider, model, attempts: result.attempts.length };
+    return {
+      provider: result.provider,
+      model,
+      tokens: usage.tokens,
+      costUsd: usage.costUsd ?? undefined,
+      metadataJson: JSON.stringify({ requestedProvider: requested, attempts: result.attempts.length }),
+    };
+  }
+
   /**
    * UNIFIED GENERATION (Hybrid Router)
    * Routes 'worker-ai' to Vercel SDK, and others to Direct SDKs to avoid dependency hell.
+   * Falls back to the other providers on failure; `modelName` only applies to `provider`.
    */
   async generateText(
     prompt: string,
-    provider: "gemini" | "openai" | "worker-ai" = "gemini",
+    provider: AIProvider = "gemini",
     modelName?: string,
   ) {
     await this.ensureContextLoaded();
+    await this.enforceBudget();
     const start = Date.now();
+    const usage = new UsageMeter(getPriceTable(this.env));
     await this.logEvent("user", prompt, { provider, model: modelName });
 
     // Prepare History from Agent State (handle potentially undefined state)
     const history = this.state && this.state.history ? this.state.history : [];
-    let responseText = "";
+    const systemMsg = history.find((h) => h.role === "system")?.content;
 
     try {
-      if (provider === "worker-ai") {
-        // --- PATH A: Worker AI (via Local Custom Provider) ---
-        // Replaced Vercel SDK usage with local provider since getWorkerAI is missing
-        // and local provider is available.
-        const { generateText: generateTextWorkerAI } =
-          await import("../../ai/providers/worker-ai");
-        responseText = await generateTextWorkerAI(
-          this.env.AI,
-          prompt,
-          undefined,
-          { effort: "medium" },
-        );
-
-        // Tools logic momentarily disabled for WorkerAI until local provider supports it or we restore Vercel SDK
-        // const result = await generateText({
-        //    model,
-        //    messages,
-        //    tools: this.getTools() as any,
-        // });
-        // responseText = result.text;
-      } else {
-        // --- PATH B: Direct SDKs (Gemini / OpenAI) ---
-        const systemMsg = history.find((h) => h.role === "system")?.content;
-
-        if (provider === "gemini") {
-          responseText = await queryGemini(
-            this.env,
-            prompt,
-            (systemMsg ? systemMsg + "\n" : "") + this.TOOLKIT_INSTRUCTIONS,
-            modelName,
-          );
-        } else if (provider === "openai") {
-          responseText = await queryOpenAI(
-            this.env,
+      const result = await this.withProviderFallback(provider, async (candidate) => {
+        const model = candidate === provider ? modelName : undefined;
+        if (candidate === "worker-ai") {
+          // --- PATH A: Worker AI (via Local Custom Provider) ---
+          // Replaced Vercel SDK usage with local provider since getWorkerAI is missing
+          // and local provider is available.
+          // Plain generation never offers tools; use runWithTools for a tool-calling loop.
+          const { generateText: generateTextWorkerAI } =
+            await import("../../ai/providers/worker-ai");
+          return generateTextWorkerAI(
+            this.env.AI,
             prompt,
-            (systemMsg ? systemMsg + "\n" : "") + this.TOOLKIT_INSTRUCTIONS,
-            modelName,
+            undefined,
+            { effort: "medium", onUsage: usage.record },
           );
         }
-      }
+
+        // --- PATH B: Direct SDKs (Gemini / OpenAI) ---
+        const systemPrompt = (systemMsg ? systemMsg + "\n" : "") + this.TOOLKIT_INSTRUCTIONS;
+        if (candidate === "gemini") {
+          return queryGemini(this.env, prompt, systemPrompt, model, usage.record);
+        }
+        return queryOpenAI(this.env, prompt, systemPrompt, model, usage.record);
+      });
+      const responseText = result.value;
 
       // Log Response
       await this.logEvent("assistant", responseText, {
-        provider,
-        model: modelName,
+        ...this.recordGeneration(provider, modelName, result, usage),
         latencyMs: Date.now() - start,
       });
 
@@ -358,16 +479,95 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     }
   }
 
+  /**
+   * STREAMING GENERATION
+   * Like generateText, but every delta is broadcast as a "chat_delta" event (and
+   * handed to `onDelta`) as soon as the model produces it. The full answer is
+   * returned and stored in state.history. Fallback only covers opening the
+   * stream: once deltas have gone out, a failure ends the answer with an error.
+   * The closing `done` delta is always sent, flagged with `error` on failure.
+   */
+  async streamText(prompt: string, options: StreamTextOptions = {}): Promise<string> {
+    const { provider = "gemini", modelName, requestId, onDelta } = options;
+    if (requestId) this.activeRequestId = requestId;
+    await this.ensureContextLoaded();
+    await this.enforceBudget();
+    const start = Date.now();
+    const usage = new UsageMeter(getPriceTable(this.env));
+    const streamId = crypto.randomUUID();
+    await this.logEvent("user", prompt, {
+      provider,
+      model: modelName,
+      metadataJson: JSON.stringify({ type: "stream", streamId }),
+    });
+
+    const history = this.state && this.state.history ? this.state.history : [];
+    const systemMsg = history.find((h) => h.role === "system")?.content;
+    const systemPrompt = (systemMsg ? systemMsg + "\n" : "") + this.TOOLKIT_INSTRUCTIONS;
+
+    let streamed = false;
+    try {
+      const result = await this.withProviderFallback(provider, async (candidate) => {
+        const model = candidate === provider ? modelName : undefined;
+        if (candidate === "worker-ai") {
+          return streamWorkerAI(this.env.AI, prompt, undefined, { effort: "medium", onUsage: usage.record });
+        }
+        if (candidate === "gemini") {
+          return streamGemini(this.env, prompt, systemPrompt, model, usage.record);
+        }
+        return streamOpenAI(this.env, prompt, systemPrompt, model, usage.record);
+      });
+
+      let responseText = "";
+      for await (const delta of result.value.pipeThrough(new TextDecoderStream())) {
+        responseText += delta;
+        this.broadcast("chat_delta", { requestId, streamId, delta });
+        onDelta?.(delta);
+      }
+      streamed = true;
+
+      await this.logEvent("assistant", responseText, {
+        ...this.recordGeneration(provider, modelName, result, usage),
+        latencyMs: Date.now() - start,
+      });
+
+      this.setState({
+        ...(this.state || {}),
+        history: [
+          ...history,
+          { role: "user", content: prompt },
+          { role: "assistant", content: responseText },
+        ],
+      } as S);
+
+      return responseText;
+    } catch (e) {
+      await this.logEvent("assistant", "Streaming Failed", {
+        provider,
+        status: "FAILURE",
+        error: String(e),
+        latencyMs: Date.now() - start,
+        actionType: "ERROR",
+      });
+      throw e;
+    } finally {
+      this.broadcast("chat_delta", { requestId, streamId, delta: "", done: true, error: !streamed });
+    }
+  }
+
   /**
    * UNIFIED STRUCTURED GENERATION
+   * Falls back to the other providers on failure, like generateText.
    */
   async generateStructured<T>(
     prompt: string,
     schema: z.ZodType<T>,
-    provider: "gemini" | "openai" | "worker-ai" = "worker-ai",
+    provider: AIProvider = "worker-ai",
     modelName?: string,
   ): Promise<T> {
+    await this.enforceBudget();
     const start = Date.now();
+    const usage = new UsageMeter(getPriceTable(this.env));
     await this.logEvent("user", prompt, {
       provider,
       model: modelName,
@@ -376,47 +576,48 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     });
 
     try {
-      let resultObject: T;
+      const jsonSchema = zodToJsonSchema(schema as unknown as Parameters<typeof zodToJsonSchema>[0]);
+      const result = await this.withProviderFallback(provider, async (candidate): Promise<T> => {
+        const model = candidate === provider ? modelName : undefined;
+        if (candidate === "worker-ai") {
+          const { generateStructured: generateStructuredWorkerAI } =
+            await import("../../ai/providers/worker-ai");
+          return generateStructuredWorkerAI(
+            this.env.AI,
+            prompt,
+            jsonSchema,
+            { onUsage: usage.record },
+          );
+        }
 
-      if (provider === "worker-ai") {
-        const { generateStructured: generateStructuredWorkerAI } =
-          await import("../../ai/providers/worker-ai");
-        resultObject = await generateStructuredWorkerAI(
-          this.env.AI,
-          prompt,
-          zodToJsonSchema(schema) as any,
-        );
-      } else {
         // Direct Providers
-        const jsonSchema = zodToJsonSchema(schema as any);
-
-        if (provider === "gemini") {
+        if (candidate === "gemini") {
           // Note: We don't have easy system prompt injection for structured yet in utils,
           // generally we prepend to prompt or rely on schema.
           // For now, prepending to prompt is safer if system msg param unavailable.
           // Checking queryGeminiStructured signature: (env, prompt, schema, system?, model?)
-          resultObject = await queryGeminiStructured(
-            this.env,
-            prompt,
-            jsonSchema,
-            this.TOOLKIT_INSTRUCTIONS,
-            modelName,
-          );
-        } else if (provider === "openai") {
-          resultObject = await queryOpenAIStructured(
+          return queryGeminiStructured(
             this.env,
             prompt,
             jsonSchema,
             this.TOOLKIT_INSTRUCTIONS,
-            modelName,
+            model,
+            usage.record,
           );
-        } else {
-          throw new Error("Invalid provider");
         }
-      }
+        return queryOpenAIStructured(
+          this.env,
+          prompt,
+          jsonSchema,
+          this.TOOLKIT_INSTRUCTIONS,
+          model,
+          usage.record,
+        );
+      });
+      const resultObject = result.value;
 
       await this.logEvent("assistant", JSON.stringify(resultObject), {
-        provider,
+        ...this.recordGeneration(provider, modelName, result, usage),
         actionType: "TOOL_RESULT",
         latencyMs: Date.now() - start,
       });
@@ -428,20 +629,123 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     }
   }
 
+  /**
+   * AGENTIC TOOL LOOP
+   * Native function calling: every tool call the model asks for is run through
+   * traceTool and its result (or error) fed back, until the model answers in
+   * text. After `maxSteps` tool-calling turns the model gets no more tools and
+   * must answer. Each turn goes through the request budget and the provider
+   * fallback chain, so a conversation may finish on another provider.
+   */
+  async runWithTools(prompt: string, options: ToolLoopOptions = {}): Promise<ToolLoopResult> {
+    const { provider = "gemini", modelName, maxSteps = DEFAULT_MAX_TOOL_STEPS } = options;
+    const catalog = { ...this.getCoreTools(), ...this.tools };
+    const names = options.tools ?? Object.keys(this.tools);
+    const declarations: ToolDeclaration[] = names.map((name) => {
+      if (!catalog[name]) throw new Error(`Unknown tool: ${name}`);
+      return {
+        name,
+        description: catalog[name].description,
+        parameters: toParametersSchema(catalog[name].parameters),
+      };
+    });
+    const systemPrompt = options.systemPrompt ?? this.TOOLKIT_INSTRUCTIONS;
+
+    await this.logEvent("user", prompt, {
+      provider,
+      model: modelName,
+      metadataJson: JSON.stringify({ type: "tool_loop", tools: names, maxSteps }),
+    });
+
+    const messages: ToolMessage[] = [{ role: "user", content: prompt }];
+    const toolCalls: ToolLoopResult["toolCalls"] = [];
+    for (let step = 1; ; step++) {
+      const final = step > maxSteps;
+      const reply = await this.toolStep(messages, final ? [] : declarations, provider, modelName, systemPrompt);
+      messages.push({ role: "assistant", content: reply.text, toolCalls: reply.toolCalls });
+      if (final || reply.toolCalls.length === 0) {
+        return { text: reply.text, steps: step, toolCalls };
+      }
+
+      for (const call of reply.toolCalls) {
+        let content: string;
+        let ok = true;
+        try {
+          const result = await this.traceTool(call.name, call.args, async () => {
+            if (!names.includes(call.name)) throw new Error(`Unknown tool: ${call.name}`);
+            return catalog[call.name].execute(call.args);
+          });
+          content = typeof result === "string" ? result : JSON.stringify(result);
+        } catch (e) {
+          if (e instanceof BudgetExhaustedError) throw e;
+          // The model sees the failure and can try something else.
+          ok = false;
+          content = `Error: ${e instanceof Error ? e.message : String(e)}`;
+        }
+        toolCalls.push({ name: call.name, args: call.args, ok });
+        messages.push({
+          role: "tool",
+          toolCallId: call.id,
+          name: call.name,
+          content: content.length > MAX_TOOL_RESULT_CHARS
+            ? `${content.slice(0, MAX_TOOL_RESULT_CHARS)}\n[truncated, ${content.length} characters in total]`
+            : content,
+        });
+      }
+    }
+  }
+
+  // One model turn of runWithTools.
+  private async toolStep(
+    messages: ToolMessage[],
+    declarations: ToolDeclaration[],
+    provider: AIProvider,
+    modelName: string | undefined,
+    systemPrompt: string,
+  ): Promise<ToolStep> {
+    await this.enforceBudget();
+    const start = Date.now();
+    const usage = new UsageMeter(getPriceTable(this.env));
+    const result = await this.withProviderFallback(provider, async (candidate) => {
+      const model = candidate === provider ? modelName : undefined;
+      if (candidate === "worker-ai") {
+        return generateWithTools(this.env.AI, messages, declarations, { systemPrompt, onUsage: usage.record });
+      }
+      if (candidate === "gemini") {
+        return queryGeminiWithTools(this.env, messages, declarations, systemPrompt, model, usage.record);
+      }
+      return queryOpenAIWithTools(this.env, messages, declarations, systemPrompt, model, usage.record);
+    });
+
+    const reply = result.value;
+    await this.logEvent(
+      "assistant",
+      reply.toolCalls.length > 0
+        ? `${reply.text}\n[Tool calls: ${reply.toolCalls.map((call) => call.name).join(", ")}]`.trim()
+        : reply.text,
+      {
+        ...this.recordGeneration(provider, modelName, result, usage),
+        latencyMs: Date.now() - start,
+      },
+    );
+    return reply;
+  }
+
   // -- VISION CAPABILITIES --
 
   /**
    * UNIFIED VISION ANALYSIS
-   * Routes image analysis to the specified provider.
+   * Routes image analysis to the specified provider, falling back to the others on failure.
    * Normalized inputs: Accepts Base64 or URL.
    */
   async analyzeImage(
     image: VisionInput,
     prompt: string,
-    provider: "gemini" | "openai" | "worker-ai" = "worker-ai",
+    provider: AIProvider = "worker-ai",
     modelName?: string,
   ): Promise<string> {
     const start = Date.now();
+    const usage = new UsageMeter(getPriceTable(this.env));
 
     // Log the visual request (omit huge base64 strings from logs)
     await this.logEvent("user", `[Vision Request] ${prompt}`, {
@@ -453,29 +757,21 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
       }),
     });
 
-    let responseText = "";
-
     try {
-      if (provider === "worker-ai") {
-        responseText = await generateVision(this.env, image, prompt);
-      } else if (provider === "gemini") {
-        responseText = await queryGeminiVision(
-          this.env,
-          image,
-          prompt,
-          modelName,
-        );
-      } else {
-        responseText = await queryOpenAIVision(
-          this.env,
-          image,
-          prompt,
-          modelName,
-        );
-      }
+      const result = await this.withProviderFallback(provider, async (candidate) => {
+        const model = candidate === provider ? modelName : undefined;
+        if (candidate === "worker-ai") {
+          return generateVision(this.env, image, prompt, usage.record);
+        }
+        if (candidate === "gemini") {
+          return queryGeminiVision(this.env, image, prompt, model, usage.record);
+        }
+        return queryOpenAIVision(this.env, image, prompt, model, usage.record);
+      });
+      const responseText = result.value;
 
       await this.logEvent("assistant", responseText, {
-        provider,
+        ...this.recordGeneration(provider, modelName, result, usage),
         actionType: "VISION_RESULT",
         latencyMs: Date.now() - start,
       });
@@ -503,7 +799,7 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     image: VisionInput,
     prompt: string,
     schema: z.ZodType<T>,
-    provider: "gemini" | "openai" | "worker-ai" = "worker-ai",
+    provider: AIProvider = "worker-ai",
     modelName?: string,
   ): Promise<T> {
     const start = Date.now();
@@ -600,6 +896,43 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     };
   }
 
+  private toolsByName?: Record<string, AgentTool>;
+
+  /**
+   * The agent-specific tools (defineTools) keyed by tool name. GitHub tools are
+   * wrapped to enforce the request budget and count against max_github_calls.
+   */
+  protected get tools(): Record<string, AgentTool> {
+    if (!this.toolsByName) {
+      this.toolsByName = {};
+      for (const [key, tool] of Object.entries<AgentTool>(this.defineTools())) {
+        const name = tool.name ?? key;
+        this.toolsByName[name] = name.startsWith("github_") ? this.withGithubBudget(tool) : tool;
+      }
+    }
+    return this.toolsByName;
+  }
+
+  // Charges the calls a GitHub tool made (githubCalls, default one), failed ones included.
+  private withGithubBudget(tool: AgentTool): AgentTool {
+    return {
+      ...tool,
+      execute: async (args) => {
+        const requestId = this.activeRequestId;
+        if (!(await this.enforceBudget()) || !requestId) {
+          return tool.execute(args);
+        }
+        let result: unknown;
+        try {
+          result = await tool.execute(args);
+          return result;
+        } finally {
+          await schema.recordGithubCalls(this.env, requestId, tool.githubCalls?.(args, result) ?? 1);
+        }
+      },
+    };
+  }
+
   /**
    * Define core tools available to every agent in the system.
    */
@@ -623,7 +956,7 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
       ...toolMap,
       vector_search: {
         description:
-          "Search the forensic knowledge base or regulatory docs using Hybrid Search.",
+          "Search the forensic knowledge base, regulatory docs or analyzed repositories (READMEs and analyses) using Hybrid Search.",
         parameters: convertHonoZodToAiJsonSchema(
           z.object({
             query: z.string().describe("The search query string."),
@@ -633,22 +966,21 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
               .default(5)
               .describe("Number of results to return."),
             index: z
-              .enum(["forensic", "regulation"])
+              .enum(KNOWLEDGE_KINDS)
               .optional()
               .default("forensic")
-              .describe("The vector index to search."),
+              .describe("The part of the knowledge base to search."),
           }),
         ),
         execute: async (args: {
           query: string;
           limit?: number;
-          index?: "forensic" | "regulation";
+          index?: KnowledgeKind;
         }) => {
           return this.traceTool("vector_search", args, async () => {
             const { query, limit = 5, index = "forensic" } = args;
-            // const searcher = new SearchService(this.env);
-            const results: any[] = []; // searcher removed
-            // const results = await searcher.search(query, limit, { index });
+            const searcher = new SearchService(this.env);
+            const results = await searcher.search(query, limit, { kind: index });
             if (results.length === 0) return "No results found.";
             return results
               .map(
@@ -675,15 +1007,14 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
         execute: async (args: { query: string; limit?: number }) => {
           return this.traceTool("search_regulations", args, async () => {
             const { query, limit = 5 } = args;
-            // const searcher = new SearchService(this.env);
-            const results: any[] = []; // searcher removed
-            // const results = await searcher.search(query, limit, { index: "regulation" });
+            const searcher = new SearchService(this.env);
+            const results = await searcher.search(query, limit, { kind: "regulation" });
             if (results.length === 0)
               return "No relevant regulatory matches found.";
             return results
               .map(
                 (r) =>
-                  `[REG-DOC: ${r.id}] (Score: ${(r.score || 0).toFixed(2)})\n${r.content}`,
+                  `[REG-DOC: ${r.id}] (Score: ${(r.score || 0).toFixed(2)}) (Source: ${r.source})\n${r.content}`,
               )
               .join("\n---\n");
           });
@@ -924,12 +1255,19 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
   /**
    * Broadcast a message to all connected WebSocket clients.
    * Essential for HITL (Human-in-the-Loop) UI updates.
+   * Events are validated against the shared `@repo/ws-protocol` schemas; an
+   * event that does not match is logged and dropped rather than sent.
    */
-  override broadcast(type: string, payload: any) {
+  override broadcast<T extends AgentEventType>(type: T, payload: AgentEventPayload<T>) {
+    const event = AgentEvent.safeParse({ type, payload });
+    if (!event.success) {
+      console.error(`[${this.agentName}] Dropped invalid "${type}" event:`, event.error.message);
+      return;
+    }
     // @ts-ignore - 'getWebSockets' is part of the standard DO ctx but might not be typed in the SDK generic
     this.ctx.getWebSockets().forEach((ws) => {
       try {
-        ws.send(JSON.stringify({ type, payload }));
+        ws.send(JSON.stringify(event.data));
       } catch (e) {
         // Ignore send errors for disconnected clients
       }
@@ -949,6 +1287,7 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     message: string,
     data?: unknown,
   ) {
+    this.activeRequestId = requestId;
     await schema.appendLog(
       this.env,
       requestId,
@@ -971,6 +1310,10 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     progress: number,
     stats?: unknown,
   ) {
+    this.activeRequestId = requestId;
+    // Stats always carry the request's token and cost totals so far.
+    const usage = await schema.summarizeRequestUsage(this.env, requestId).catch(() => undefined);
+    stats = usage ? { ...(stats as object | undefined), usage } : stats;
     await schema.setRequestProgress(
       this.env,
       requestId,
@@ -985,12 +1328,21 @@ When asked to analyze data or perform logic better suited for Python, PREFER usi
     status: string,
     errorText?: string,
   ) {
+    this.activeRequestId = requestId;
     await schema.updateRequestStatus(
       this.env,
       requestId,
       status,
       errorText,
     );
+    // Also kept in the request log, which is the status history replayed to late subscribers.
+    await schema.appendLog(
+      this.env,
+      requestId,
+      "status",
+      status,
+      errorText ? { errorText } : undefined,
+    );
     this.broadcast("status", { requestId, status, errorText });
   }
 
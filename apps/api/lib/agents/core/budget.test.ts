@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import {
+  BudgetExhaustedError,
+  findExhaustedLimit,
+  hasBudgetLimits,
+  type BudgetSpend,
+} from "./budget";
+
+const NOTHING_SPENT: BudgetSpend = {
+  tokens: 0,
+  costUsd: 0,
+  githubCalls: 0,
+  elapsedMinutes: 0,
+};
+
+describe("hasBudgetLimits", () => {
+  it("is false without a limit", () => {
+    expect(hasBudgetLimits(undefined)).toBe(false);
+    expect(hasBudgetLimits({})).toBe(false);
+    expect(hasBudgetLimits({ maxTokens: undefined })).toBe(false);
+  });
+
+  it("is true with any limit, including zero", () => {
+    expect(hasBudgetLimits({ maxGithubCalls: 0 })).toBe(true);
+  });
+});
+
+describe("findExhaustedLimit", () => {
+  it("is null while every limit has room left", () => {
+    expect(
+      findExhaustedLimit(
+        {
+          maxTokens: 1000,
+          maxCostUsd: 1,
+          maxGithubCalls: 10,
+          maxDurationMinutes: 5,
+        },
+        { tokens: 999, costUsd: 0.5, githubCalls: 9, elapsedMinutes: 4.9 },
+      ),
+    ).toBeNull();
+  });
+
+  it("stops once a limit is reached, not only when it is exceeded", () => {
+    expect(
+      findExhaustedLimit(
+        { maxGithubCalls: 10 },
+        { ...NOTHING_SPENT, githubCalls: 10 },
+      ),
+    ).toBe("max_github_calls (10 of 10 calls made)");
+  });
+
+  it("describes each limit", () => {
+    expect(
+      findExhaustedLimit({ maxTokens: 100 }, { ...NOTHING_SPENT, tokens: 150 }),
+    ).toBe("max_tokens (150 of 100 tokens used)");
+    expect(
+      findExhaustedLimit(
+        { maxCostUsd: 0.25 },
+        { ...NOTHING_SPENT, costUsd: 0.3 },
+      ),
+    ).toBe("max_cost_usd ($0.3000 of $0.25 spent)");
+    expect(
+      findExhaustedLimit(
+        { maxDurationMinutes: 2 },
+        { ...NOTHING_SPENT, elapsedMinutes: 2.5 },
+      ),
+    ).toBe("max_duration_minutes (2.5 of 2 minutes elapsed)");
+  });
+
+  it("reports the first exhausted limit", () => {
+    expect(
+      findExhaustedLimit(
+        { maxTokens: 100, maxGithubCalls: 1 },
+        { ...NOTHING_SPENT, tokens: 100, githubCalls: 1 },
+      ),
+    ).toMatch(/^max_tokens/);
+  });
+
+  it("ignores spend on limits that are not set", () => {
+    expect(
+      findExhaustedLimit(
+        { maxTokens: 100 },
+        { tokens: 10, costUsd: 99, githubCalls: 500, elapsedMinutes: 600 },
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("BudgetExhaustedError", () => {
+  it("keeps the reason", () => {
+    const error = new BudgetExhaustedError("max_tokens (1 of 1 tokens used)");
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.reason).toBe("max_tokens (1 of 1 tokens used)");
+    expect(error.message).toBe(
+      "Budget exhausted: max_tokens (1 of 1 tokens used)",
+    );
+  });
+});
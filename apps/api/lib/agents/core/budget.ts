@@ -0,0 +1,72 @@
+/**
+ * -----------------------------------------------------------------------------
+ * FILE: budget.ts
+ * MODULE: Core
+ * -----------------------------------------------------------------------------
+ * DESCRIPTION:
+ * Per-request spend limits and the check that stops an agent once one of them
+ * is used up.
+ *
+ * PURPOSE:
+ * A search fans out over several Durable Objects (orchestrator, analysts,
+ * judge), so its spend is tracked per request in D1 (`request_budgets` and the
+ * token/cost totals of `agent_events`) rather than per agent. Every agent checks
+ * the shared spend before a model call or GitHub tool call; the first one to
+ * find a limit exceeded records why, and the orchestrator wraps the search up
+ * with what it has.
+ *
+ * KEY COMPONENTS:
+ * - RequestBudget: The limits, all optional.
+ * - findExhaustedLimit: Limits + spend so far -> the reason it is used up, if any.
+ * - BudgetExhaustedError: Thrown instead of making the call.
+ * -----------------------------------------------------------------------------
+ */
+
+export interface RequestBudget {
+  maxTokens?: number;
+  maxCostUsd?: number;
+  maxGithubCalls?: number;
+  maxDurationMinutes?: number;
+}
+
+export interface BudgetSpend {
+  tokens: number;
+  costUsd: number;
+  githubCalls: number;
+  elapsedMinutes: number;
+}
+
+export class BudgetExhaustedError extends Error {
+  constructor(public reason: string) {
+    super(`Budget exhausted: ${reason}`);
+    this.name = "BudgetExhaustedError";
+  }
+}
+
+/**
+ * Whether the budget limits anything at all.
+ */
+export function hasBudgetLimits(budget: RequestBudget | undefined): budget is RequestBudget {
+  return Object.values(budget ?? {}).some((limit) => limit !== undefined);
+}
+
+/**
+ * The first limit `spend` has reached, as a human-readable reason, or null.
+ * Limits are checked before each call, so the call that crosses a limit still
+ * completes and the spend may end up slightly over it.
+ */
+export function findExhaustedLimit(budget: RequestBudget, spend: BudgetSpend): string | null {
+  if (budget.maxTokens !== undefined && spend.tokens >= budget.maxTokens) {
+    return `max_tokens (${spend.tokens} of ${budget.maxTokens} tokens used)`;
+  }
+  if (budget.maxCostUsd !== undefined && spend.costUsd >= budget.maxCostUsd) {
+    return `max_cost_usd ($${spend.costUsd.toFixed(4)} of $${budget.maxCostUsd} spent)`;
+  }
+  if (budget.maxGithubCalls !== undefined && spend.githubCalls >= budget.maxGithubCalls) {
+    return `max_github_calls (${spend.githubCalls} of ${budget.maxGithubCalls} calls made)`;
+  }
+  if (budget.maxDurationMinutes !== undefined && spend.elapsedMinutes >= budget.maxDurationMinutes) {
+    return `max_duration_minutes (${spend.elapsedMinutes.toFixed(1)} of ${budget.maxDurationMinutes} minutes elapsed)`;
+  }
+  return null;
+}
@@ -0,0 +1,173 @@
+import type { SearchConfig } from "@repo/db/schema";
+import { describe, expect, it } from "vitest";
+import {
+  applySearchConfigOverrides,
+  resolveSearchConfig,
+  searchConfigSchema,
+  toSearchQualifiers,
+  type ResolvedSearchConfig,
+} from "./search-config";
+
+function storedConfig(overrides: Partial<SearchConfig> = {}): SearchConfig {
+  return {
+    id: "config-1",
+    name: "cloudflare-workers",
+    config: {},
+    reposToAnalyze: 20,
+    enrichmentRounds: 2,
+    analysisCacheTtlHours: 168,
+    isDefault: false,
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...overrides,
+  };
+}
+
+describe("resolveSearchConfig", () => {
+  it("falls back to the defaults without a stored config", () => {
+    expect(resolveSearchConfig(undefined)).toEqual({
+      configId: null,
+      configName: null,
+      searchBase: "GENERAL",
+      minStars: undefined,
+      language: undefined,
+      qualifiers: undefined,
+      concurrency: 5,
+      hitlTopN: 5,
+      judgeCutoff: 12,
+      reposToAnalyze: 20,
+      enrichmentRounds: 2,
+      analysisCacheTtlHours: 168,
+      budget: {
+        maxTokens: undefined,
+        maxCostUsd: undefined,
+        maxGithubCalls: undefined,
+        maxDurationMinutes: undefined,
+      },
+    });
+  });
+
+  it("takes columns and stored options from the row", () => {
+    const resolved = resolveSearchConfig(
+      storedConfig({
+        config: {
+          search_base: "CLOUDFLARE_WORKER",
+          min_stars: 50,
+          max_tokens: 10_000,
+        },
+        reposToAnalyze: 8,
+        enrichmentRounds: 1,
+        analysisCacheTtlHours: 0,
+      }),
+    );
+
+    expect(resolved).toMatchObject({
+      configId: "config-1",
+      configName: "cloudflare-workers",
+      searchBase: "CLOUDFLARE_WORKER",
+      minStars: 50,
+      reposToAnalyze: 8,
+      enrichmentRounds: 1,
+      analysisCacheTtlHours: 0,
+      budget: { maxTokens: 10_000 },
+    });
+  });
+
+  it("lets request overrides win over the stored config", () => {
+    const resolved = resolveSearchConfig(
+      storedConfig({
+        config: { min_stars: 50, language: "go", repos_to_analyze: 10 },
+      }),
+      { min_stars: 200, repos_to_analyze: 3 },
+    );
+
+    expect(resolved.minStars).toBe(200);
+    expect(resolved.language).toBe("go");
+    expect(resolved.reposToAnalyze).toBe(3);
+  });
+
+  it("drops stored options that no longer validate", () => {
+    const resolved = resolveSearchConfig(
+      storedConfig({ config: { min_stars: -1, unknown_field: true } }),
+      {
+        language: "rust",
+      },
+    );
+
+    expect(resolved.minStars).toBeUndefined();
+    expect(resolved.language).toBe("rust");
+    expect(resolved.configId).toBe("config-1");
+    expect(resolved.ignoredOptions).toEqual(["min_stars", "unknown_field"]);
+  });
+
+  it("keeps the valid options of a legacy row with one unknown key", () => {
+    const resolved = resolveSearchConfig(
+      storedConfig({
+        config: { min_stars: 100, language: "typescript", topics: ["workers"] },
+      }),
+    );
+
+    expect(resolved.minStars).toBe(100);
+    expect(resolved.language).toBe("typescript");
+    expect(resolved.ignoredOptions).toEqual(["topics"]);
+  });
+});
+
+describe("applySearchConfigOverrides", () => {
+  it("keeps fields the overrides leave out", () => {
+    const base = resolveSearchConfig(undefined, {
+      language: "typescript",
+      max_cost_usd: 2,
+    });
+    const next = applySearchConfigOverrides(base, {
+      min_stars: 10,
+      max_github_calls: 100,
+    });
+
+    expect(next.language).toBe("typescript");
+    expect(next.minStars).toBe(10);
+    expect(next.budget).toEqual({
+      maxTokens: undefined,
+      maxCostUsd: 2,
+      maxGithubCalls: 100,
+      maxDurationMinutes: undefined,
+    });
+  });
+
+  it("accepts checkpoints written before budgets existed", () => {
+    const legacy = {
+      ...resolveSearchConfig(undefined),
+      budget: undefined,
+    } as unknown as ResolvedSearchConfig;
+    const next = applySearchConfigOverrides(legacy, { max_tokens: 5 });
+
+    expect(next.budget.maxTokens).toBe(5);
+  });
+});
+
+describe("searchConfigSchema", () => {
+  it("rejects unknown fields", () => {
+    expect(
+      searchConfigSchema.safeParse({ min_stars: 1, stars: 1 }).success,
+    ).toBe(false);
+  });
+});
+
+describe("toSearchQualifiers", () => {
+  it("joins the base pool and filters into GitHub qualifiers", () => {
+    const config = resolveSearchConfig(undefined, {
+      search_base: "CLOUDFLARE_WORKER",
+      min_stars: 100,
+      language: "typescript",
+      qualifiers: "license:mit",
+    });
+
+    expect(toSearchQualifiers(config)).toBe(
+      "topic:cloudflare-workers stars:>=100 language:typescript license:mit",
+    );
+  });
+
+  it("is empty for the general pool without filters", () => {
+    expect(toSearchQualifiers(resolveSearchConfig(undefined))).toBe("");
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * -----------------------------------------------------------------------------
+ * FILE: search-config.ts
+ * MODULE: Core
+ * -----------------------------------------------------------------------------
+ * DESCRIPTION:
+ * Typed schema for search configurations and the resolution of a stored
+ * `search_configs` row plus per-request overrides into the settings one search
+ * runs with.
+ *
+ * PURPOSE:
+ * The JSON stored in `search_configs.config` and the `config` of a search
+ * request share one schema, validated at the API boundary. The orchestrator only
+ * ever sees the resolved, fully defaulted form.
+ *
+ * KEY COMPONENTS:
+ * - searchConfigSchema: Qualifiers and pipeline knobs, all optional.
+ * - resolveSearchConfig: Stored row + overrides -> ResolvedSearchConfig.
+ * - parseStoredSearchConfig: Stored JSON -> the options that still validate.
+ * - applySearchConfigOverrides: ResolvedSearchConfig + overrides (e.g. a re-run).
+ * - toSearchQualifiers: ResolvedSearchConfig -> GitHub search qualifiers.
+ * - Budget fields (max_tokens, max_cost_usd, max_github_calls,
+ *   max_duration_minutes): per-request spend limits, see core/budget.ts.
+ * -----------------------------------------------------------------------------
+ */
+
+import { z } from "zod";
+import type { SearchConfig } from "@repo/db/schema";
+import type { RequestBudget } from "./budget";
+
+// Named base pools a search can start from, as GitHub search qualifiers.
+export const SEARCH_BASES = {
+  GENERAL: "",
+  CLOUDFLARE_WORKER: "topic:cloudflare-workers",
+} as const;
+
+export type SearchBase = keyof typeof SEARCH_BASES;
+
+export const searchConfigSchema = z
+  .object({
+    search_base: z
+      .enum(Object.keys(SEARCH_BASES) as [SearchBase, ...SearchBase[]])
+      .optional()
+      .describe("The base search pool to use."),
+    min_stars: z.number().int().min(0).optional().describe("The minimum number of stars a repository must have."),
+    language: z.string().min(1).optional().describe("The primary programming language of the repository."),
+    qualifiers: z
+      .string()
+      .optional()
+      .describe('Extra GitHub search qualifiers, e.g. "pushed:>2024-01-01 license:mit".'),
+    concurrency: z.number().int().min(1).max(20).optional().describe("How many repositories are analyzed at once."),
+    hitl_top_n: z.number().int().min(1).max(20).optional().describe("How many candidates are offered for human review."),
+    judge_cutoff: z
+      .number()
+      .int()
+      .min(1)
+      .max(50)
+      .optional()
+      .describe("How many of the top-ranked analyses are handed to the judge."),
+    repos_to_analyze: z
+      .number()
+      .int()
+      .min(1)
+      .max(100)
+      .optional()
+      .describe("How many candidate repositories are analyzed. Overrides the config's repos_to_analyze column."),
+    max_tokens: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe("Budget: input plus output tokens across all of the request's model calls."),
+    max_cost_usd: z
+      .number()
+      .positive()
+      .optional()
+      .describe("Budget: estimated model cost in USD (see AI_PRICE_TABLE)."),
+    max_github_calls: z.number().int().min(1).optional().describe("Budget: GitHub tool calls across all agents."),
+    max_duration_minutes: z
+      .number()
+      .positive()
+      .optional()
+      .describe("Budget: wall-clock time since the search started, pauses included."),
+  })
+  .strict();
+
+export type SearchConfigOptions = z.infer<typeof searchConfigSchema>;
+
+export interface ResolvedSearchConfig {
+  configId: string | null;
+  configName: string | null;
+  searchBase: SearchBase;
+  minStars?: number;
+  language?: string;
+  qualifiers?: string;
+  concurrency: number;
+  hitlTopN: number;
+  judgeCutoff: number;
+  reposToAnalyze: number;
+  enrichmentRounds: number;
+  analysisCacheTtlHours: number;
+  // Empty when the search has no limits. Checkpoints written before budgets existed lack it.
+  budget: RequestBudget;
+  // Options of the stored config that were dropped because they no longer validate.
+  ignoredOptions?: string[];
+}
+
+const DEFAULTS = {
+  searchBase: "GENERAL",
+  concurrency: 5,
+  hitlTopN: 5,
+  judgeCutoff: 12,
+  reposToAnalyze: 20,
+  enrichmentRounds: 2,
+  analysisCacheTtlHours: 168,
+} as const;
+
+/**
+ * Applies `overrides` on top of an already resolved config; fields left out keep their value.
+ */
+export function applySearchConfigOverrides(
+  base: ResolvedSearchConfig,
+  overrides: SearchConfigOptions = {},
+): ResolvedSearchConfig {
+  return {
+    ...base,
+    searchBase: overrides.search_base ?? base.searchBase,
+    minStars: overrides.min_stars ?? base.minStars,
+    language: overrides.language ?? base.language,
+    qualifiers: overrides.qualifiers ?? base.qualifiers,
+    concurrency: overrides.concurrency ?? base.concurrency,
+    hitlTopN: overrides.hitl_top_n ?? base.hitlTopN,
+    judgeCutoff: overrides.judge_cutoff ?? base.judgeCutoff,
+    reposToAnalyze: overrides.repos_to_analyze ?? base.reposToAnalyze,
+    budget: {
+      maxTokens: overrides.max_tokens ?? base.budget?.maxTokens,
+      maxCostUsd: overrides.max_cost_usd ?? base.budget?.maxCostUsd,
+      maxGithubCalls: overrides.max_github_calls ?? base.budget?.maxGithubCalls,
+      maxDurationMinutes: overrides.max_duration_minutes ?? base.budget?.maxDurationMinutes,
+    },
+  };
+}
+
+/**
+ * Validates a stored `search_configs.config` one option at a time, so a row saved
+ * before the schema was tightened keeps every option that is still valid. Unknown
+ * and invalid options are left out and named in `ignored`.
+ */
+export function parseStoredSearchConfig(config: unknown): { options: SearchConfigOptions; ignored: string[] } {
+  const shape = searchConfigSchema.shape;
+  const options: Record<string, unknown> = {};
+  const ignored: string[] = [];
+  if (typeof config !== "object" || config === null) {
+    return { options, ignored };
+  }
+  for (const [key, value] of Object.entries(config)) {
+    const parsed = Object.hasOwn(shape, key) ? shape[key as keyof typeof shape].safeParse(value) : undefined;
+    if (parsed?.success) {
+      options[key] = parsed.data;
+    } else {
+      ignored.push(key);
+    }
+  }
+  return { options: options as SearchConfigOptions, ignored };
+}
+
+/**
+ * Merges a stored config (if any) with per-request overrides; overrides win.
+ * Stored options that no longer validate are dropped rather than failing the
+ * search, and listed in `ignoredOptions`.
+ */
+export function resolveSearchConfig(
+  row: SearchConfig | undefined,
+  overrides: SearchConfigOptions = {},
+): ResolvedSearchConfig {
+  const stored = parseStoredSearchConfig(row?.config);
+  const base: ResolvedSearchConfig = {
+    configId: row?.id ?? null,
+    configName: row?.name ?? null,
+    searchBase: DEFAULTS.searchBase,
+    concurrency: DEFAULTS.concurrency,
+    hitlTopN: DEFAULTS.hitlTopN,
+    judgeCutoff: DEFAULTS.judgeCutoff,
+    reposToAnalyze: row?.reposToAnalyze ?? DEFAULTS.reposToAnalyze,
+    enrichmentRounds: row?.enrichmentRounds ?? DEFAULTS.enrichmentRounds,
+    analysisCacheTtlHours: row?.analysisCacheTtlHours ?? DEFAULTS.analysisCacheTtlHours,
+    budget: {},
+    ...(stored.ignored.length > 0 ? { ignoredOptions: stored.ignored } : {}),
+  };
+  return applySearchConfigOverrides(applySearchConfigOverrides(base, stored.options), overrides);
+}
+
+/**
+ * GitHub search qualifiers for a config, e.g. "topic:cloudflare-workers stars:>=100 language:typescript".
+ */
+export function toSearchQualifiers(config: ResolvedSearchConfig): string {
+  const qualifiers: string[] = [SEARCH_BASES[config.searchBase]];
+  if (config.minStars) {
+    qualifiers.push(`stars:>=${config.minStars}`);
+  }
+  if (config.language) {
+    qualifiers.push(`language:${config.language}`);
+  }
+  if (config.qualifiers) {
+    qualifiers.push(config.qualifiers);
+  }
+  return qualifiers.filter(Boolean).join(" ");
+}
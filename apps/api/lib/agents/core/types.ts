@@ -17,6 +17,9 @@
  * - OrchestratorState / EngagementStatus: Types for workflow orchestration.
  * - StrategyState / TacticalMode: Types for valid legal/response strategies.
  * - LogOptions: Structure for the centralized logging system.
+ * - ToolLoopOptions / ToolLoopResult: The agentic tool-calling loop (runWithTools).
+ * - StreamTextOptions: Streaming generation (streamText).
+ * - AgentTool: A tool as defined by an agent (defineTools).
  * -----------------------------------------------------------------------------
  */
 
@@ -83,6 +86,8 @@ export interface StrategyState extends AgentState {
 }
 
 export interface LogOptions {
+  // Defaults to the request this agent last logged, progressed or changed status for.
+  requestId?: string;
   engagementId?: string;
   workflowId?: string;
   actionType?:
@@ -98,11 +103,48 @@ export interface LogOptions {
   model?: string;
   latencyMs?: number;
   tokens?: { input: number; output: number };
+  // Estimated from `tokens` with the price table in ai/usage.ts; absent for unpriced models.
+  costUsd?: number;
   status?: "SUCCESS" | "FAILURE";
   error?: string;
   metadataJson?: string;
 }
 
+export interface StreamTextOptions {
+  provider?: "gemini" | "openai" | "worker-ai";
+  modelName?: string;
+  // Tags the chat_delta events and the agent's logs with the request the answer is for.
+  requestId?: string;
+  // Also receives every delta, e.g. to forward it over SSE.
+  onDelta?: (delta: string) => void;
+}
+
+export interface ToolLoopOptions {
+  // Names of the tools the model may call; defaults to the agent's own (defineTools) tools.
+  tools?: string[];
+  provider?: "gemini" | "openai" | "worker-ai";
+  modelName?: string;
+  // Model turns that may call tools; the turn after the last one must answer in text.
+  maxSteps?: number;
+  systemPrompt?: string;
+}
+
+export interface ToolLoopResult {
+  text: string;
+  // Model turns taken, the final answer included.
+  steps: number;
+  toolCalls: { name: string; args: Record<string, unknown>; ok: boolean }[];
+}
+
+export interface AgentTool {
+  name?: string;
+  description?: string;
+  parameters?: unknown;
+  execute(args: Record<string, unknown>): Promise<unknown>;
+  // GitHub API requests the call made, when not exactly one; counted against max_github_calls.
+  githubCalls?(args: Record<string, unknown>, result: unknown): number;
+}
+
 export type VisionInput = {
   type: "base64" | "url";
   data: string; // The Base64 string or the URL
@@ -2,6 +2,21 @@
 import { BaseAgent, type AgentState } from "./core/base";
 import { z } from "zod";
 
+export interface JudgeVerdict {
+    id: string;
+    reasoning: string;
+    // Only set on rejections: what the analyst should do to improve the result.
+    enrichmentRequest?: string;
+}
+
+export interface JudgeReview {
+    approved: JudgeVerdict[];
+    rejected: JudgeVerdict[];
+}
+
+// The judge only relies on the id; everything else on a result is passed to the model as is.
+export type JudgedResult = { id: string } & Record<string, unknown>;
+
 export class JudgeAgent extends BaseAgent<Env, AgentState> {
     agentName = "JudgeAgent";
 
@@ -9,14 +24,14 @@ export class JudgeAgent extends BaseAgent<Env, AgentState> {
         return {};
     }
 
-    async review(requestId: string, userQuery: string, results: any[]): Promise<any[]> {
+    async review(requestId: string, userQuery: string, results: JudgedResult[]): Promise<JudgeReview> {
         await this.status(requestId, "judging");
         await this.logRequest(requestId, "info", "Judging results.");
 
         const reviewPrompt = `
             Original user query: "${userQuery}"
 
-            Here are the top 12 results from the OrchestratorAgent:
+            Here are the top ${results.length} results from the OrchestratorAgent:
             ---
             ${JSON.stringify(results, null, 2)}
             ---
@@ -56,14 +71,29 @@ export class JudgeAgent extends BaseAgent<Env, AgentState> {
             })),
         }));
 
-        // For now, we will just return the approved results.
-        // In the future, the orchestrator will handle the enrichment requests.
-        const approvedIds = new Set(review.approved_results.map(r => r.id));
-        const finalResults = results.filter(r => approvedIds.has(r.id));
+        const resultIds = new Set(results.map(r => r.id));
+        const approved: JudgeVerdict[] = review.approved_results
+            .filter(r => resultIds.has(r.id))
+            .map(r => ({ id: r.id, reasoning: r.reasoning }));
+        const rejected: JudgeVerdict[] = review.rejected_results
+            .filter(r => resultIds.has(r.id))
+            .map(r => ({ id: r.id, reasoning: r.reasoning, enrichmentRequest: r.enrichment_request }));
+
+        // A result the model forgot to rule on counts as rejected, so it is not silently dropped.
+        const judgedIds = new Set([...approved, ...rejected].map(r => r.id));
+        for (const result of results) {
+            if (!judgedIds.has(result.id)) {
+                rejected.push({
+                    id: result.id,
+                    reasoning: "The judge returned no verdict for this result.",
+                    enrichmentRequest: "Re-evaluate the repository against the original user query.",
+                });
+            }
+        }
 
 
         await this.status(requestId, "judged");
         await this.logRequest(requestId, "info", "Judging complete.", { review });
-        return finalResults;
+        return { approved, rejected };
     }
 }
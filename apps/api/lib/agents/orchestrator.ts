@@ -1,26 +1,100 @@
-
 import { BaseAgent, type AgentState } from "./core/base";
 import { z } from "zod";
-import { repoAnalysis, githubRequests, hitlReviews, searchConfigs } from "../../../db/schema";
-import { eq } from "drizzle-orm";
+import { repoAnalysis, githubRequests, hitlReviews, chatMessages } from "../../../db/schema";
+import { eq, inArray } from "drizzle-orm";
 import { getGithubTools } from "./tools/github";
+import { mergeRepoResults, withoutCarriedRepos } from "./tools/github/candidates";
+import type { RepoSearchHit, SearchHits, TopicSearchHit } from "./tools/github/types";
+import { toSearchQualifiers, type ResolvedSearchConfig } from "./core/search-config";
+import { BudgetExhaustedError, hasBudgetLimits } from "./core/budget";
+import { abortAnalysts, analystName } from "./core/analysts";
+import * as schema from "../db/schema";
 import { GithubAnalystAgent } from "./analyst";
-import { JudgeAgent } from "./judge";
+import { JudgeAgent, type JudgeReview } from "./judge";
+import { OrchestratorCommand, type AnalystCommand } from "@repo/ws-protocol/agent";
+import { createSSEStream } from "../ai/utils/streaming";
+import { buildChatPrompt, extractCitations, loadChatHistory, retrieveChatSources, type ChatCitation } from "../chat";
+
+/**
+ * The ordered phases of a search run. `hitl` and `completed` are resting points:
+ * the orchestrator stops advancing there until the user submits their reviews
+ * (`continue()`) or for good.
+ */
+export type OrchestratorPhase =
+    | "sampling"
+    | "hitl"
+    | "expansion"
+    | "delegation"
+    | "supervision"
+    | "synthesis"
+    | "handoff"
+    | "completed";
+
+/**
+ * A user-requested stop. A halted run keeps its phase cursor: a paused run
+ * continues from it on `resume()`, a cancelled one never does.
+ */
+export type OrchestratorHalt = "paused" | "cancelled";
+
+/**
+ * Checkpoint of an in-flight search. `phase` always points at the next phase to
+ * execute; the optional fields hold the outputs of the phases already done so
+ * that a resumed run never has to redo them.
+ */
+export interface OrchestratorRun {
+    requestId: string;
+    query: string;
+    config: ResolvedSearchConfig;
+    phase: OrchestratorPhase;
+    halt?: OrchestratorHalt;
+    refinedQueries?: string[];
+    reposToAnalyze?: string[];
+    shortlistIds?: string[];
+    enrichmentRound?: number;
+    // Set once the request's budget ran out: the run skips to synthesis and finishes with what it has.
+    budgetExhausted?: string;
+    watchdogId?: string;
+    updatedAt: string;
+}
 
 interface OrchestratorState extends AgentState {
     analystStubs?: { name: string, id: DurableObjectId }[];
+    run?: OrchestratorRun;
+}
+
+// How often the watchdog alarm checks on an in-flight run, in seconds.
+const WATCHDOG_INTERVAL_SECONDS = 60;
+
+// Topics (found by searching the generated queries) that also get a repository search of their own.
+const MAX_TOPIC_SEARCHES = 3;
+
+// A failed search only loses its hits, unless it failed because the budget ran out.
+function noHits(error: unknown): SearchHits<never> {
+    if (error instanceof BudgetExhaustedError) throw error;
+    return { items: [] };
 }
 
 export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
     agentName = "OrchestratorAgent";
     analystSockets: WebSocket[] = [];
 
+    // In-memory only: true while this instance is driving the phase loop. A fresh
+    // instance after eviction starts with false, which is what lets watchdog() run.
+    private advancing = false;
+
     protected defineTools() {
         return {
             ...getGithubTools(this.env),
         };
     }
 
+    override async onStart() {
+        const run = this.state?.run;
+        if (run && this.isResumable(run)) {
+            await this.schedule(0, "watchdog");
+        }
+    }
+
     override async fetch(request: Request): Promise<Response> {
         const url = new URL(request.url);
         if (url.pathname === "/ws") {
@@ -36,93 +110,359 @@ export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
     }
 
 
-    async start(requestId: string, query: string, config: any): Promise<void> {
-        await this.logRequest(requestId, "info", "Starting new search.", { query, config });
-        const db = this.env.DB;
+    /**
+     * Starts a search. With `skipHitl` (a re-run whose HITL verdicts were carried
+     * over as already reviewed) it goes straight to query expansion.
+     */
+    async start(requestId: string, query: string, config: ResolvedSearchConfig, options: { skipHitl?: boolean } = {}): Promise<void> {
+        await this.logRequest(requestId, "info", "Starting new search.", { query, config, ...options });
+        if (hasBudgetLimits(config.budget)) {
+            await schema.setRequestBudget(this.env, requestId, config.budget);
+        }
+        await this.checkpoint({
+            requestId,
+            query,
+            config,
+            phase: options.skipHitl ? "expansion" : "sampling",
+            updatedAt: new Date().toISOString(),
+        });
+        await this.advance();
+    }
 
-        // Phase 1: Sampling
-        await this.status(requestId, "sampling");
-        this.broadcast("status", { requestId, status: "sampling" });
-        const searchQueries = await this.generateSearchQueries(query);
-        const searchResults = await Promise.all(
-            searchQueries.map((q) => this.tools.github_search_code.execute({ q }))
-        );
-        const top5Repos = searchResults.flatMap((r: any) => r.items).slice(0, 5);
+    async continue(requestId: string): Promise<void> {
+        const run = this.state?.run ?? await this.loadCheckpoint(requestId);
 
+        if (!run) {
+            throw new Error("Request not found");
+        }
 
-        // Phase 2: HITL
-        await this.status(requestId, "hitl");
-        this.broadcast("status", { requestId, status: "hitl" });
-        const hitlReviewsToCreate = top5Repos.map((repo: any) => ({
-            id: crypto.randomUUID(),
-            requestId,
-            repoSnapshotJson: repo,
-        }));
+        if (run.halt === "cancelled") {
+            return;
+        }
 
+        if (run.phase !== "hitl") {
+            // Already past HITL (e.g. a duplicate review submission): just make sure it is moving.
+            await this.watchdog();
+            return;
+        }
 
-        await db.insert(hitlReviews).values(hitlReviewsToCreate);
-        this.broadcast("hitl", { requestId, reviews: hitlReviewsToCreate });
+        await this.checkpoint({ ...run, phase: "expansion" });
+        await this.advance();
+    }
 
+    /**
+     * Stops dispatching new analysts, aborts the running ones and parks the run
+     * at its current phase until `resume()` is called.
+     */
+    async pause(requestId: string): Promise<void> {
+        await this.halt(requestId, "paused");
+        await this.logRequest(requestId, "info", "Search paused.");
+    }
 
-        // The workflow will now pause until the user submits their HITL reviews.
-        // The frontend will call the POST /agent/hitl/{reviewId}/review endpoint,
-        // which will trigger the continuation of the workflow.
+    /**
+     * Like `pause()`, but final: the run can no longer be resumed or continued.
+     */
+    async cancel(requestId: string): Promise<void> {
+        await this.halt(requestId, "cancelled");
+        await this.logRequest(requestId, "warn", "Search cancelled.");
     }
 
-    async continue(requestId: string): Promise<void> {
-        const db = this.env.DB;
+    async resume(requestId: string): Promise<void> {
+        const run = this.state?.run ?? await this.loadCheckpoint(requestId);
+
+        if (!run) {
+            throw new Error("Request not found");
+        }
+
+        if (run.halt !== "paused") {
+            throw new Error("Search is not paused.");
+        }
+
+        await this.checkpoint({ ...run, halt: undefined });
+        await this.logRequest(requestId, "info", `Search resumed at phase "${run.phase}".`);
+        await this.advance();
+    }
+
+    /**
+     * Watchdog entry point, invoked by the scheduled alarm and on start-up.
+     * Picks an interrupted run back up at its checkpointed phase.
+     */
+    async watchdog(): Promise<void> {
+        const run = this.state?.run;
+        if (!run || !this.isResumable(run)) return;
+
+        if (this.advancing) {
+            // Still alive and working; keep the watchdog armed.
+            await this.armWatchdog(run);
+            return;
+        }
+
+        await this.logRequest(run.requestId, "info", `Resuming search at phase "${run.phase}".`);
+        await this.advance();
+    }
+
+
+    private isResumable(run: OrchestratorRun) {
+        return !run.halt && run.phase !== "hitl" && run.phase !== "completed";
+    }
+
+    private isHalted() {
+        return Boolean(this.state?.run?.halt);
+    }
+
+    // A halt wins; a run that finished early because of its budget says so instead of "completed".
+    private runStatus(run: OrchestratorRun): string {
+        if (run.halt) return run.halt;
+        if (run.phase === "completed" && run.budgetExhausted) return "budget_exhausted";
+        return run.phase;
+    }
+
+    private async halt(requestId: string, halt: OrchestratorHalt): Promise<void> {
+        const run = this.state?.run ?? await this.loadCheckpoint(requestId);
+
+        if (!run) {
+            throw new Error("Request not found");
+        }
+
+        if (run.phase === "completed" || run.halt === "cancelled") {
+            throw new Error(`Search is already ${run.halt ?? run.phase}.`);
+        }
+
+        const next = await this.checkpoint({ ...run, halt });
+        // Enrichment re-dispatches analysts of the same repos, so this reaches those too.
+        const unreachable = await abortAnalysts(run.reposToAnalyze ?? [], (repoUrl) => this.analyst(requestId, repoUrl), halt);
+        if (unreachable.length > 0) {
+            await this.logRequest(requestId, "warn", `Could not stop ${unreachable.length} analyst(s).`, { repos: unreachable });
+        }
+
+        // A live phase loop notices the halt at its next check and settles the status itself.
+        if (!this.advancing) {
+            await this.disarmWatchdog(next);
+            await this.status(requestId, halt);
+        }
+    }
+
+    private analyst(requestId: string, repoUrl: string): GithubAnalystAgent {
+        const analystDO = this.env.ANALYST;
+        return analystDO.get(analystDO.idFromName(analystName(requestId, repoUrl))) as unknown as GithubAnalystAgent;
+    }
+
+    /**
+     * Runs phases from the current cursor until a resting point, checkpointing
+     * after every phase.
+     */
+    private async advance(): Promise<void> {
+        if (this.advancing || !this.state?.run) return;
+        this.advancing = true;
 
-        const request = await db.query.githubRequests.findFirst({
+        let run = this.state.run;
+        try {
+            while (this.isResumable(run)) {
+                run = await this.armWatchdog(run);
+                await this.status(run.requestId, run.phase);
+                const next = await this.runPhase(run);
+                // The halt may have been set by pause()/cancel() while the phase ran.
+                run = await this.checkpoint({ ...next, halt: this.state.run?.halt });
+            }
+            run = await this.disarmWatchdog(run);
+            await this.status(run.requestId, this.runStatus(run));
+        } catch (error: unknown) {
+            // A failing phase is not retried by the watchdog; the cursor stays put for a manual resume.
+            const message = error instanceof Error ? error.message : String(error);
+            run = await this.disarmWatchdog(run);
+            await this.logRequest(run.requestId, "error", `Phase "${run.phase}" failed.`, { error: message });
+            await this.status(run.requestId, "error", message);
+            throw error;
+        } finally {
+            this.advancing = false;
+        }
+    }
+
+    private async runPhase(run: OrchestratorRun): Promise<OrchestratorRun> {
+        try {
+            switch (run.phase) {
+                case "sampling":
+                    return await this.sample(run);
+                case "expansion":
+                    return await this.expand(run);
+                case "delegation":
+                    return await this.delegate(run);
+                case "supervision":
+                    return await this.supervise(run);
+                case "synthesis":
+                    return await this.synthesize(run);
+                case "handoff":
+                    return await this.handoff(run);
+                default:
+                    throw new Error(`Phase "${run.phase}" cannot be executed.`);
+            }
+        } catch (error) {
+            if (!(error instanceof BudgetExhaustedError)) throw error;
+            return this.exhaustBudget(run, error.reason);
+        }
+    }
+
+    /**
+     * Wraps a run up once its budget is used up: whatever was analyzed so far goes
+     * through synthesis, and handoff finishes without calling the judge again.
+     */
+    private async exhaustBudget(run: OrchestratorRun, reason: string): Promise<OrchestratorRun> {
+        await this.logRequest(run.requestId, "warn", `Budget exhausted during phase "${run.phase}"; skipping to synthesis with partial results.`, { reason });
+        return { ...run, budgetExhausted: reason, phase: "synthesis" };
+    }
+
+    private async exhaustedBudgetReason(requestId: string): Promise<string | undefined> {
+        const budget = await schema.getRequestBudget(this.env, requestId);
+        return budget?.exhaustedReason ?? undefined;
+    }
+
+    /**
+     * Another agent's error arrives here as a plain Error, since error classes do
+     * not survive the Durable Object boundary. One caused by the budget running
+     * out is thrown again as BudgetExhaustedError.
+     */
+    private async rethrowIfBudgetExhausted(requestId: string, error: unknown): Promise<never> {
+        const reason = await this.exhaustedBudgetReason(requestId);
+        throw reason ? new BudgetExhaustedError(reason) : error;
+    }
+
+    /**
+     * Statuses are also written to the github_requests row, which is what the API reads.
+     */
+    protected override async status(requestId: string, status: string, errorText?: string) {
+        await this.env.DB.update(githubRequests)
+            .set({ status })
+            .where(eq(githubRequests.id, requestId));
+        await super.status(requestId, status, errorText);
+    }
+
+    private async checkpoint(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const next = { ...run, updatedAt: new Date().toISOString() };
+        this.setState({ ...this.state, run: next });
+        await this.env.DB.update(githubRequests)
+            .set({ status: this.runStatus(next), checkpoint: next })
+            .where(eq(githubRequests.id, next.requestId));
+        return next;
+    }
+
+    private async loadCheckpoint(requestId: string): Promise<OrchestratorRun | undefined> {
+        const request = await this.env.DB.query.githubRequests.findFirst({
             where: eq(githubRequests.id, requestId),
-            with: {
-                hitlReviews: true,
-            },
         });
+        if (!request) return undefined;
 
-        if (!request) {
-            throw new Error("Request not found");
+        const run = (request.checkpoint as OrchestratorRun | null) ?? {
+            requestId,
+            query: request.query,
+            config: request.config,
+            phase: "hitl",
+            updatedAt: new Date().toISOString(),
+        };
+        this.setState({ ...this.state, run });
+        return run;
+    }
+
+    private async armWatchdog(run: OrchestratorRun): Promise<OrchestratorRun> {
+        if (run.watchdogId) {
+            await this.cancelSchedule(run.watchdogId);
         }
+        const schedule = await this.schedule(WATCHDOG_INTERVAL_SECONDS, "watchdog");
+        return this.checkpoint({ ...run, watchdogId: schedule.id });
+    }
 
-        const config = await db.query.searchConfigs.findFirst({
-            where: eq(searchConfigs.isDefault, true),
+    private async disarmWatchdog(run: OrchestratorRun): Promise<OrchestratorRun> {
+        if (!run.watchdogId) return run;
+        await this.cancelSchedule(run.watchdogId);
+        return this.checkpoint({ ...run, watchdogId: undefined });
+    }
+
+
+    // Phase 1: Sampling
+    private async sample(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const db = this.env.DB;
+        const { requestId } = run;
+
+        const existingReviews = await db.query.hitlReviews.findMany({
+            where: eq(hitlReviews.requestId, requestId),
         });
 
-        const reposToAnalyzeCount = config?.reposToAnalyze ?? 20;
+        // A re-run starts with its parent's verdicts; they are merged with a fresh search, not a sign of an earlier run.
+        const carriedReviews = existingReviews.filter((r) => r.carriedFrom);
+
+        // Reviews already written by an interrupted run: re-announce them instead of searching again.
+        if (existingReviews.length > carriedReviews.length) {
+            this.broadcast("hitl", { requestId, reviews: existingReviews });
+            return { ...run, phase: "hitl" };
+        }
 
+        const searchQueries = await this.generateSearchQueries(run.query);
+        const candidates = await this.findCandidateRepos(run, searchQueries);
+        const topRepos = withoutCarriedRepos(candidates.slice(0, run.config.hitlTopN), carriedReviews);
 
-        // Phase 3: Expansion
-        await this.status(requestId, "expansion");
-        this.broadcast("status", { requestId, status: "expansion" });
 
-        const positiveReviews = request.hitlReviews.filter((r) => r.userVerdict);
-        const refinedSearchQueries = await this.refineSearchQueries(
-            request.query,
+        // Phase 2: HITL
+        const hitlReviewsToCreate = topRepos.map((repo) => ({
+            id: crypto.randomUUID(),
+            requestId,
+            repoSnapshotJson: repo,
+        }));
+
+        if (hitlReviewsToCreate.length > 0) {
+            await db.insert(hitlReviews).values(hitlReviewsToCreate);
+        }
+        this.broadcast("hitl", { requestId, reviews: [...carriedReviews, ...hitlReviewsToCreate] });
+
+        // The workflow will now pause until the user submits their HITL reviews.
+        // The frontend will call the POST /agent/hitl/{reviewId}/review endpoint,
+        // which will trigger the continuation of the workflow.
+        return { ...run, phase: "hitl" };
+    }
+
+    // Phase 3: Expansion
+    private async expand(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const reviews = await this.env.DB.query.hitlReviews.findMany({
+            where: eq(hitlReviews.requestId, run.requestId),
+        });
+
+        const positiveReviews = reviews.filter((r) => r.userVerdict);
+        const refinedQueries = await this.refineSearchQueries(
+            run.query,
             positiveReviews.map((r) => r.repoSnapshotJson)
         );
 
+        return { ...run, refinedQueries, phase: "delegation" };
+    }
 
-        // Phase 4: Delegation
-        await this.status(requestId, "delegation");
-        this.broadcast("status", { requestId, status: "delegation" });
-        const searchResults = await Promise.all(
-            refinedSearchQueries.map((q) => this.tools.github_search_code.execute({ q }))
-        );
-        const reposToAnalyze = searchResults.flatMap((r: any) => r.items).slice(0, reposToAnalyzeCount);
+    // Phase 4: Delegation
+    private async delegate(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const candidates = await this.findCandidateRepos(run, run.refinedQueries ?? []);
+        const reposToAnalyze = candidates
+            .map((repo) => repo.html_url)
+            .slice(0, run.config.reposToAnalyze);
 
+        return { ...run, reposToAnalyze, phase: "supervision" };
+    }
 
-        // Phase 5: Supervision
-        await this.status(requestId, "supervision");
-        this.broadcast("status", { requestId, status: "supervision" });
+    // Phase 5: Supervision
+    private async supervise(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const db = this.env.DB;
+        const { requestId } = run;
+        const reposToAnalyze = run.reposToAnalyze ?? [];
 
-        const concurrency = 5;
-        const queue = [...reposToAnalyze];
+        // Analysts that already wrote their repo_analysis row are not dispatched again.
+        const analyzed = await db.query.repoAnalysis.findMany({
+            where: eq(repoAnalysis.requestId, requestId),
+        });
+        const analyzedUrls = new Set(analyzed.map((r) => r.repoUrl));
+
+        const concurrency = run.config.concurrency;
+        const queue = reposToAnalyze.filter((repoUrl) => !analyzedUrls.has(repoUrl));
         const running: Promise<void>[] = [];
         const analystStubs = [];
 
-        for (const repo of reposToAnalyze) {
-            const analystDO = this.env.ANALYST;
-            const analystId = analystDO.idFromName(`${requestId}-${repo.html_url}`);
-            analystStubs.push({ name: `${requestId}-${repo.html_url}`, id: analystId });
+        for (const repoUrl of queue) {
+            const name = analystName(requestId, repoUrl);
+            analystStubs.push({ name, id: this.env.ANALYST.idFromName(name) });
         }
         this.setState({ ...this.state, analystStubs });
 
@@ -131,22 +471,23 @@ export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
                 const analystStub = this.env.ANALYST.get(stubInfo.id);
                 const response = await analystStub.fetch("http://dummy-url/ws", { headers: { "Upgrade": "websocket" } });
                 if (response.webSocket) {
+                    // The client end must be accepted before the correction monitor can send on it.
+                    response.webSocket.accept();
                     this.analystSockets.push(response.webSocket);
                 }
             }
         }
 
+        // Set by the first analyst to run out of budget; no further analysts are dispatched.
+        let budgetExhausted: string | undefined;
+
         const processQueue = () => {
-            while (running.length < concurrency && queue.length > 0) {
-                const repo = queue.shift();
-                if (repo) {
-                    const analystDO = this.env.ANALYST;
-                    const analyst = analystDO.get(
-                        analystDO.idFromName(`${requestId}-${repo.html_url}`),
-                    ) as unknown as GithubAnalystAgent;
-
-                    const promise = analyst.run(requestId, repo.html_url, request.query)
-                        .then(() => {
+            while (!this.isHalted() && !budgetExhausted && running.length < concurrency && queue.length > 0) {
+                const repoUrl = queue.shift();
+                if (repoUrl) {
+                    const promise = this.analyst(requestId, repoUrl).run(requestId, repoUrl, run.query, { cacheTtlHours: run.config.analysisCacheTtlHours })
+                        .then(async () => {
+                            budgetExhausted ??= await this.exhaustedBudgetReason(requestId);
                             const index = running.indexOf(promise);
                             if (index > -1) {
                                 running.splice(index, 1);
@@ -171,59 +512,197 @@ export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
                     ws.send(JSON.stringify({
                         type: "correction",
                         message: "The AI ranking seems low. Please be more generous with your rankings.",
-                    }));
+                    } satisfies AnalystCommand));
                 });
             }
 
         }, 15000);
 
 
-        while (running.length > 0) {
-            await Promise.race(running);
+        try {
+            while (running.length > 0) {
+                await Promise.race(running);
+            }
+        } finally {
+            // A failed analyst call rejects the race; the monitor must not outlive the phase.
+            clearInterval(monitor);
+            this.analystSockets.forEach(ws => ws.close());
+            this.analystSockets = [];
         }
 
-        clearInterval(monitor);
-        this.analystSockets.forEach(ws => ws.close());
-
+        // Halted mid-phase: stay on supervision so a resume re-dispatches the unfinished repos.
+        if (this.isHalted()) {
+            return run;
+        }
 
-        // Phase 6: Synthesis
-        await this.status(requestId, "synthesis");
-        this.broadcast("status", { requestId, status: "synthesis" });
+        if (budgetExhausted) {
+            return this.exhaustBudget(run, budgetExhausted);
+        }
+        return { ...run, phase: "synthesis" };
+    }
 
-        const analysisResults = await db.query.repoAnalysis.findMany({
-            where: eq(repoAnalysis.requestId, requestId),
+    // Phase 6: Synthesis
+    private async synthesize(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const analysisResults = await this.env.DB.query.repoAnalysis.findMany({
+            where: eq(repoAnalysis.requestId, run.requestId),
         });
-        let top12Results = analysisResults.sort((a, b) => (b.aiRanking ?? 0) - (a.aiRanking ?? 0)).slice(0, 12);
+        const shortlistIds = analysisResults
+            .sort((a, b) => (b.aiRanking ?? 0) - (a.aiRanking ?? 0))
+            .slice(0, run.config.judgeCutoff)
+            .map((r) => r.id);
 
+        return { ...run, shortlistIds, phase: "handoff" };
+    }
+
+    // Phase 7: Handoff & Enrichment Loop
+    private async handoff(run: OrchestratorRun): Promise<OrchestratorRun> {
+        const { requestId } = run;
+        const shortlistIds = run.shortlistIds ?? [];
+
+        const maxEnrichmentRounds = run.config.enrichmentRounds;
 
-        // Phase 7: Handoff & Enrichment Loop
-        await this.status(requestId, "handoff");
-        this.broadcast("status", { requestId, status: "handoff" });
         const judgeDO = this.env.JUDGE;
         const judge = judgeDO.get(
             judgeDO.idFromName(requestId),
         ) as unknown as JudgeAgent;
 
-        let finalResults = await judge.review(requestId, request.query, top12Results);
-        const rejectedResults = top12Results.filter(r => !finalResults.some(fr => fr.id === r.id));
+        // Only results without an approval are (re-)judged, so a resumed handoff keeps earlier verdicts.
+        let pending = await this.loadShortlist(shortlistIds);
+        pending = pending.filter((r) => r.judgeVerdict !== "approved");
+        let round = run.enrichmentRound ?? 0;
+
+        // Once the budget is exhausted, the judge is not called again; unjudged results are returned as they are.
+        while (pending.length > 0 && !run.budgetExhausted) {
+            await this.enforceBudget();
+            const review = await judge.review(requestId, run.query, pending)
+                .catch((error) => this.rethrowIfBudgetExhausted(requestId, error));
+            await this.recordVerdicts(review);
+
+            if (review.rejected.length === 0 || round >= maxEnrichmentRounds || this.isHalted()) {
+                break;
+            }
+
+            round += 1;
+            run = await this.checkpoint({ ...run, enrichmentRound: round });
+            await this.logRequest(requestId, "info", `Enrichment round ${round} of ${maxEnrichmentRounds}.`, {
+                rejected: review.rejected,
+            });
+
+            const rejectedIds = review.rejected.map((r) => r.id);
+            const rejectedRows = pending.filter((r) => rejectedIds.includes(r.id));
+            await Promise.all(rejectedRows.map((row) => {
+                const verdict = review.rejected.find((r) => r.id === row.id);
+                return this.analyst(requestId, row.repoUrl).run(requestId, row.repoUrl, run.query, { enrichment: verdict?.enrichmentRequest });
+            }));
+
+            pending = await this.loadShortlist(rejectedIds);
+        }
+
+        // Halted mid-loop: stay on handoff so a resume re-judges what is still pending.
+        if (this.isHalted()) {
+            return run;
+        }
+
+        const shortlist = await this.loadShortlist(shortlistIds);
+        const finalResults = shortlist.filter((r) => r.judgeVerdict === "approved");
+        const unjudgedResults = run.budgetExhausted
+            ? shortlist.filter((r) => !r.judgeVerdict).map((r) => ({ ...r, status: "unjudged" }))
+            : [];
+        const rejectedResults = shortlist
+            .filter((r) => r.judgeVerdict !== "approved" && !(run.budgetExhausted && !r.judgeVerdict))
+            .map((r) => ({ ...r, status: "rejected" }));
 
         if (rejectedResults.length > 0) {
-            // In a real implementation, we would re-run the analysts with the enrichment requests.
-            // For now, we will just log the enrichment requests.
-            await this.logRequest(requestId, "info", "Enrichment requested.", { rejectedResults });
+            await this.logRequest(requestId, "info", "Results rejected after enrichment.", {
+                rejected: rejectedResults.map((r) => ({ repoUrl: r.repoUrl, reasoning: r.judgeReasoning })),
+            });
+        }
+
+        // Final stats land in request_meta together with the request's token and cost totals.
+        await this.progress(requestId, 1, {
+            approved: finalResults.length,
+            rejected: rejectedResults.length,
+            ...(run.budgetExhausted ? { unjudged: unjudgedResults.length, budgetExhausted: run.budgetExhausted } : {}),
+        });
+        if (run.budgetExhausted) {
+            this.broadcast("status", {
+                requestId,
+                status: "budget_exhausted",
+                errorText: `Budget exhausted: ${run.budgetExhausted}`,
+                results: finalResults,
+                rejected: rejectedResults,
+                unjudged: unjudgedResults,
+            });
+            await this.logRequest(requestId, "warn", "Search stopped early, budget exhausted. Results are partial.", {
+                reason: run.budgetExhausted,
+            });
+        } else {
+            this.broadcast("status", { requestId, status: "completed", results: finalResults, rejected: rejectedResults });
+            await this.logRequest(requestId, "info", "Search complete.");
         }
+        return { ...run, phase: "completed" };
+    }
 
+    private async loadShortlist(ids: string[]) {
+        if (ids.length === 0) return [];
+        const rows = await this.env.DB.query.repoAnalysis.findMany({
+            where: inArray(repoAnalysis.id, ids),
+        });
+        return rows.sort((a, b) => (b.aiRanking ?? 0) - (a.aiRanking ?? 0));
+    }
 
-        await this.status(requestId, "completed");
-        this.broadcast("status", { requestId, status: "completed", results: finalResults });
-        await this.logRequest(requestId, "info", "Search complete.");
+    private async recordVerdicts(review: JudgeReview) {
+        const db = this.env.DB;
+        for (const verdict of review.approved) {
+            await db.update(repoAnalysis)
+                .set({ judgeVerdict: "approved", judgeReasoning: verdict.reasoning })
+                .where(eq(repoAnalysis.id, verdict.id));
+        }
+        for (const verdict of review.rejected) {
+            await db.update(repoAnalysis)
+                .set({
+                    judgeVerdict: "rejected",
+                    judgeReasoning: verdict.reasoning,
+                    enrichmentRequest: verdict.enrichmentRequest,
+                })
+                .where(eq(repoAnalysis.id, verdict.id));
+        }
     }
 
 
 
+    /**
+     * Runs `queries` through repository search, plus a search of the topics they
+     * match, and merges the hits into one deduplicated list of repositories that
+     * pass the search config's min_stars/language filters.
+     */
+    private async findCandidateRepos(run: OrchestratorRun, queries: string[]): Promise<RepoSearchHit[]> {
+        const qualifiers = toSearchQualifiers(run.config);
+
+        const topicResults: SearchHits<TopicSearchHit>[] = await Promise.all(
+            queries.map((q) => (this.tools.github_search_topics.execute({ q, per_page: 2 }) as Promise<SearchHits<TopicSearchHit>>).catch(noHits))
+        );
+        const topics = [...new Set(
+            topicResults.flatMap((r) => r.items).map((topic) => topic.name)
+        )].slice(0, MAX_TOPIC_SEARCHES);
+
+        const searches = [
+            ...queries.map((q) => `${q} ${qualifiers}`.trim()),
+            ...topics.map((topic) => `topic:${topic} ${qualifiers}`.trim()),
+        ];
+        const searchResults: SearchHits<RepoSearchHit>[] = await Promise.all(
+            searches.map((q) => (this.tools.github_search_repos.execute({ q }) as Promise<SearchHits<RepoSearchHit>>).catch(noHits))
+        );
+        return mergeRepoResults(searchResults.map((r) => r.items), {
+            minStars: run.config.minStars,
+            language: run.config.language,
+        });
+    }
+
     private async generateSearchQueries(userQuery: string): Promise<string[]> {
         const prompt = `
-            Based on the user's query, generate 3-5 distinct GitHub search queries to find relevant repositories.
+            Based on the user's query, generate 3-5 distinct GitHub repository search queries to find relevant repositories.
+            Use short keyword queries (e.g. "cloudflare workers auth"); do not add stars: or language: qualifiers.
             User query: "${userQuery}"
             Return a JSON array of strings.
         `;
@@ -238,7 +717,8 @@ export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
             ---
             ${JSON.stringify(positiveExamples, null, 2)}
             ---
-            Based on this new information, generate 3-5 new, more specific GitHub search queries.
+            Based on this new information, generate 3-5 new, more specific GitHub repository search queries.
+            Use short keyword queries; do not add stars: or language: qualifiers.
             Return a JSON array of strings.
         `;
         const result = await this.generateStructured(prompt, z.array(z.string()));
@@ -246,30 +726,62 @@ export class OrchestratorAgent extends BaseAgent<Env, OrchestratorState> {
     }
 
 
+    /**
+     * Answers a follow-up question as Server-Sent Events: "delta" events while the
+     * answer is generated, then "complete" with the stored message and its citations.
+     */
+    async streamChat(requestId: string, query: string): Promise<ReadableStream> {
+        const sse = createSSEStream();
+        this.ctx.waitUntil(
+            this.answerChat(requestId, query, (delta) => sse.send({ type: "delta", data: { delta } }))
+                .then((reply) => sse.complete(reply))
+                .catch((e: unknown) => {
+                    sse.sendError(e instanceof Error ? e : String(e));
+                    sse.complete();
+                }),
+        );
+        return sse.stream;
+    }
+
+    /**
+     * Answers from the analyses and cached files relevant to the question, with
+     * the conversation so far as memory, and stores the exchange.
+     */
+    private async answerChat(
+        requestId: string,
+        query: string,
+        onDelta?: (delta: string) => void,
+    ): Promise<{ messageId: string, answer: string, citations: ChatCitation[] }> {
+        const db = this.env.DB;
+        const askedAt = new Date();
+        const history = await loadChatHistory(db, requestId);
+        const sources = await retrieveChatSources(db, requestId, query, history);
+
+        const answer = await this.streamText(buildChatPrompt(query, sources, history), { requestId, onDelta });
+        const citations = extractCitations(answer, sources);
+
+        const messageId = crypto.randomUUID();
+        await db.insert(chatMessages).values([
+            { requestId, role: "user", content: query, createdAt: askedAt },
+            { id: messageId, requestId, role: "assistant", content: answer, citations, createdAt: new Date() },
+        ]);
+        return { messageId, answer, citations };
+    }
+
+
     override async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer) {
         try {
             const text = typeof message === "string" ? message : new TextDecoder().decode(message);
-            const obj = JSON.parse(text);
-            const db = this.env.DB;
-
-            if (obj?.type === "chat") {
-                const { query, requestId } = obj;
-
-                const results = await db.query.repoAnalysis.findMany({
-                    where: eq(repoAnalysis.requestId, requestId),
-                });
+            const command = OrchestratorCommand.safeParse(JSON.parse(text));
+            if (!command.success) {
+                ws.send(JSON.stringify({ type: "error", message: `Invalid message: ${command.error.message}` }));
+                return;
+            }
 
-                const chatPrompt = `
-                    The user has asked a follow-up question about the results.
-                    User question: "${query}"
-                    Results:
-                    ---
-                    ${JSON.stringify(results, null, 2)}
-                    ---
-                    Please answer the user's question based on the results.
-                `;
-                const answer = await this.generateText(chatPrompt);
-                ws.send(JSON.stringify({ type: "chat", answer }));
+            if (command.data.type === "chat") {
+                // Deltas reach every connected client as chat_delta events; the asker also gets the full answer.
+                const reply = await this.answerChat(command.data.requestId, command.data.query);
+                ws.send(JSON.stringify({ type: "chat", ...reply }));
             }
 
         } catch (e: any) {
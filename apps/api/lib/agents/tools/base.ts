@@ -66,8 +66,7 @@ export abstract class BaseTool<TArgs = any, TResult = any> {
           const result = await this.execute(args);
 
           // 3. Log the Result
-          // Handle potentially large objects safely for logging if needed,
-          // but for now we assume BaseAgent/Prisma handles sizing or truncation.
+          // Large results are truncated when the event is stored (agent_events).
           const resultStr =
             typeof result === "string" ? result : JSON.stringify(result);
 
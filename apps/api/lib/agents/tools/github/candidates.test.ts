@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { mergeRepoResults, withoutCarriedRepos } from "./candidates";
+import type { RepoSearchHit } from "./types";
+
+function repo(fullName: string, stars: number, language: string | null = "TypeScript"): RepoSearchHit {
+    return {
+        full_name: fullName,
+        html_url: `https://github.com/${fullName}`,
+        description: null,
+        stargazers_count: stars,
+        language,
+    };
+}
+
+describe("mergeRepoResults", () => {
+    it("dedupes repos and ranks them by hits, then stars", () => {
+        const merged = mergeRepoResults(
+            [
+                [repo("a/one", 10), repo("b/two", 500)],
+                [repo("A/One", 10), repo("c/three", 50)],
+            ],
+            {},
+        );
+
+        expect(merged.map((r) => r.full_name)).toEqual(["a/one", "b/two", "c/three"]);
+    });
+
+    it("re-applies the min_stars and language filters", () => {
+        const merged = mergeRepoResults(
+            [[repo("a/one", 10), repo("b/two", 500), repo("c/three", 900, "Go")]],
+            { minStars: 100, language: "typescript" },
+        );
+
+        expect(merged.map((r) => r.full_name)).toEqual(["b/two"]);
+    });
+});
+
+describe("withoutCarriedRepos", () => {
+    it("drops candidates that already have a carried-over verdict", () => {
+        const carried = [
+            { repoSnapshotJson: repo("a/one", 10) },
+            { repoSnapshotJson: { ...repo("B/Two", 500), html_url: "https://github.com/B/Two" } },
+        ];
+
+        const remaining = withoutCarriedRepos([repo("a/one", 10), repo("b/two", 500), repo("c/three", 50)], carried);
+
+        expect(remaining.map((r) => r.full_name)).toEqual(["c/three"]);
+    });
+
+    it("keeps every candidate without carried reviews or snapshots", () => {
+        const candidates = [repo("a/one", 10), repo("b/two", 500)];
+
+        expect(withoutCarriedRepos(candidates, [])).toEqual(candidates);
+        expect(withoutCarriedRepos(candidates, [{ repoSnapshotJson: null }])).toEqual(candidates);
+    });
+});
@@ -0,0 +1,55 @@
+/**
+ * @file Candidate repository merging for the orchestrator's search phases.
+ * @description Repository and topic searches return overlapping pages of repos.
+ * mergeRepoResults folds the pages into one deduplicated, filtered candidate list.
+ * withoutCarriedRepos drops the candidates a re-run already has a verdict for.
+ */
+
+import type { RepoSearchHit } from "./types";
+
+export interface RepoSearchFilters {
+    minStars?: number;
+    language?: string;
+}
+
+/**
+ * Merges pages of repository search results into one list, one entry per repo.
+ * The filters are re-applied because generated queries can carry qualifiers of
+ * their own. Repos found by more searches come first, then by stars.
+ */
+export function mergeRepoResults(resultSets: RepoSearchHit[][], filters: RepoSearchFilters): RepoSearchHit[] {
+    const merged = new Map<string, { repo: RepoSearchHit, hits: number }>();
+    for (const repo of resultSets.flat()) {
+        if (!repo?.full_name) {
+            continue;
+        }
+        const key = repo.full_name.toLowerCase();
+        const entry = merged.get(key);
+        if (entry) {
+            entry.hits++;
+        } else {
+            merged.set(key, { repo, hits: 1 });
+        }
+    }
+
+    const language = filters.language?.toLowerCase();
+    return [...merged.values()]
+        .filter(({ repo }) => !filters.minStars || (repo.stargazers_count ?? 0) >= filters.minStars)
+        .filter(({ repo }) => !language || repo.language?.toLowerCase() === language)
+        .sort((a, b) => b.hits - a.hits || (b.repo.stargazers_count ?? 0) - (a.repo.stargazers_count ?? 0))
+        .map(({ repo }) => repo);
+}
+
+/**
+ * The candidates that still need a review on a re-run. Reviews carried over
+ * from the parent search are matched to candidates by repository URL.
+ */
+export function withoutCarriedRepos(
+    candidates: RepoSearchHit[],
+    carriedReviews: { repoSnapshotJson: unknown }[],
+): RepoSearchHit[] {
+    const carriedUrls = new Set(
+        carriedReviews.map((review) => (review.repoSnapshotJson as Partial<RepoSearchHit> | null)?.html_url?.toLowerCase()),
+    );
+    return candidates.filter((repo) => !carriedUrls.has(repo.html_url.toLowerCase()));
+}
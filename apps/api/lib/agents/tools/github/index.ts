@@ -1,5 +1,7 @@
 import { z } from '../../utils/schema';
 import { getOctokit } from './core';
+import { collectRepoHealth, repoHealthCallCount } from './metrics';
+import type { RepoHealthMetrics, RepoSearchHit, SearchHits, TopicSearchHit } from './types';
 import { Env as Bindings } from '../../types';
 
 export const getGithubTools = (env: Bindings) => {
@@ -36,6 +38,64 @@ export const getGithubTools = (env: Bindings) => {
                 }
             }
         },
+        {
+            name: "github_get_head_sha",
+            description: "Get the commit SHA at the head of a branch.",
+            parameters: z.object({
+                owner: z.string(),
+                repo: z.string(),
+                branch: z.string().describe("The branch name, usually the repository's default branch")
+            }),
+            execute: async (args: { owner: string, repo: string, branch: string }) => {
+                const octokit = getOctokit(env);
+                try {
+                    const { data } = await octokit.rest.repos.getBranch({
+                        owner: args.owner,
+                        repo: args.repo,
+                        branch: args.branch
+                    });
+                    return data.commit.sha;
+                } catch (e: unknown) {
+                    throw new Error(`Failed to get head SHA: ${e instanceof Error ? e.message : String(e)}`);
+                }
+            }
+        },
+        {
+            name: "github_get_tree",
+            description: "List every file path in a GitHub repository (recursive tree).",
+            parameters: z.object({
+                owner: z.string(),
+                repo: z.string(),
+                ref: z.string().optional().describe("The branch, tag, or commit SHA (default: the default branch)")
+            }),
+            execute: async (args: { owner: string, repo: string, ref?: string }) => {
+                const octokit = getOctokit(env);
+                try {
+                    let ref = args.ref;
+                    if (!ref) {
+                        const { data: repo } = await octokit.rest.repos.get({ owner: args.owner, repo: args.repo });
+                        ref = repo.default_branch;
+                    }
+
+                    const { data } = await octokit.rest.git.getTree({
+                        owner: args.owner,
+                        repo: args.repo,
+                        tree_sha: ref,
+                        recursive: "true"
+                    });
+
+                    return {
+                        sha: data.sha,
+                        truncated: data.truncated,
+                        paths: data.tree.filter((entry) => entry.type === "blob").map((entry) => entry.path as string)
+                    };
+                } catch (e: unknown) {
+                    throw new Error(`Failed to get tree: ${e instanceof Error ? e.message : String(e)}`);
+                }
+            },
+            // Looking up the default branch takes an extra request.
+            githubCalls: (args: { ref?: string }) => args.ref ? 1 : 2
+        },
         {
             name: "github_list_files",
             description: "List files in a GitHub repository directory.",
@@ -344,6 +404,40 @@ export const getGithubTools = (env: Bindings) => {
                 return data;
             }
         },
+        {
+            name: "github_search_repos",
+            description: "Search for repositories. Supports qualifiers such as stars:>=100, language:go and topic:cli.",
+            parameters: z.object({
+                q: z.string(),
+                sort: z.enum(["stars", "forks", "help-wanted-issues", "updated"]).optional(),
+                per_page: z.number().optional().default(20)
+            }),
+            execute: async (args: { q: string, sort?: "stars" | "forks" | "help-wanted-issues" | "updated", per_page?: number }): Promise<SearchHits<RepoSearchHit>> => {
+                const octokit = getOctokit(env);
+                const { data } = await octokit.rest.search.repos({
+                    q: args.q,
+                    sort: args.sort,
+                    per_page: args.per_page
+                });
+                return data;
+            }
+        },
+        {
+            name: "github_search_topics",
+            description: "Search for GitHub topics (e.g. \"cloudflare-workers\") by keyword.",
+            parameters: z.object({
+                q: z.string(),
+                per_page: z.number().optional().default(5)
+            }),
+            execute: async (args: { q: string, per_page?: number }): Promise<SearchHits<TopicSearchHit>> => {
+                const octokit = getOctokit(env);
+                const { data } = await octokit.rest.search.topics({
+                    q: args.q,
+                    per_page: args.per_page
+                });
+                return data;
+            }
+        },
 
         // ==========================================
         // Repos
@@ -363,6 +457,22 @@ export const getGithubTools = (env: Bindings) => {
                 });
                 return data;
             }
+        },
+        {
+            name: "github_get_repo_health",
+            description: "Get repository health metrics: last commit, release cadence, issue ratio, PR merge time, contributors and bus factor.",
+            parameters: z.object({
+                owner: z.string(),
+                repo: z.string(),
+            }),
+            execute: async (args: { owner: string, repo: string }): Promise<RepoHealthMetrics> => {
+                try {
+                    return await collectRepoHealth(env, args.owner, args.repo);
+                } catch (e: unknown) {
+                    throw new Error(`Failed to collect repository health: ${e instanceof Error ? e.message : String(e)}`);
+                }
+            },
+            githubCalls: (_args: unknown, result?: RepoHealthMetrics) => result ? repoHealthCallCount(result) : 1
         }
     ];
 };
@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { formatManifestFacts, parseManifests, selectManifestPaths } from "./manifests";
+
+describe("selectManifestPaths", () => {
+    it("keeps shallow manifests, root first, then workflows", () => {
+        const paths = [
+            "src/index.ts",
+            "api/package.json",
+            "packages/core/package.json",
+            "package.json",
+            ".github/workflows/ci.yml",
+            ".github/ISSUE_TEMPLATE/bug.yml",
+            "wrangler.jsonc",
+        ];
+
+        expect(selectManifestPaths(paths)).toEqual([
+            "package.json",
+            "wrangler.jsonc",
+            "api/package.json",
+            ".github/workflows/ci.yml",
+        ]);
+    });
+
+    it("caps the number of manifests", () => {
+        const paths = Array.from({ length: 20 }, (_, i) => `pkg${i}/package.json`);
+        expect(selectManifestPaths(paths)).toHaveLength(12);
+    });
+});
+
+describe("parseManifests", () => {
+    it("reads npm dependencies, tooling and engines from package.json", () => {
+        const facts = parseManifests([{
+            path: "package.json",
+            content: JSON.stringify({
+                dependencies: { hono: "^4.0.0" },
+                devDependencies: { typescript: "^5.4.0", vitest: "^1.0.0" },
+                engines: { node: ">=20" },
+                packageManager: "pnpm@9.0.0",
+            }),
+        }]);
+
+        expect(facts.ecosystems).toEqual(["npm"]);
+        expect(facts.dependencies).toEqual([
+            { ecosystem: "npm", name: "hono", version: "^4.0.0", dev: false, source: "package.json" },
+            { ecosystem: "npm", name: "typescript", version: "^5.4.0", dev: true, source: "package.json" },
+            { ecosystem: "npm", name: "vitest", version: "^1.0.0", dev: true, source: "package.json" },
+        ]);
+        expect(facts.tooling).toEqual(["typescript", "vitest", "pnpm"]);
+        expect(facts.runtimes).toEqual({ node: ">=20" });
+    });
+
+    it("reads PEP 621 and Poetry dependencies from pyproject.toml", () => {
+        const facts = parseManifests([{
+            path: "pyproject.toml",
+            content: [
+                "[project]",
+                'requires-python = ">=3.11"',
+                "dependencies = [",
+                '    "requests[socks]>=2.31 ; python_version<\'3.12\'",',
+                '    "pydantic",',
+                "]",
+                "",
+                "[tool.poetry.group.dev.dependencies]",
+                'pytest = "^8.0"',
+                "",
+                "[tool.ruff]",
+                "line-length = 100",
+            ].join("\n"),
+        }]);
+
+        expect(facts.runtimes.python).toBe(">=3.11");
+        expect(facts.dependencies.map((d) => [d.name, d.version, d.dev])).toEqual([
+            ["requests", ">=2.31", false],
+            ["pydantic", undefined, false],
+            ["pytest", "^8.0", true],
+        ]);
+        expect(facts.tooling).toEqual(expect.arrayContaining(["poetry", "ruff"]));
+    });
+
+    it("skips options and comments in requirements.txt", () => {
+        const facts = parseManifests([{
+            path: "requirements.txt",
+            content: "-r base.txt\n# web\nflask==3.0.0  # pinned\n\n--index-url https://example.com\n",
+        }]);
+
+        expect(facts.dependencies).toEqual([
+            { ecosystem: "pypi", name: "flask", version: "==3.0.0", dev: false, source: "requirements.txt" },
+        ]);
+    });
+
+    it("reads direct requirements and the Go version from go.mod", () => {
+        const facts = parseManifests([{
+            path: "go.mod",
+            content: [
+                "module example.com/app",
+                "",
+                "go 1.22",
+                "",
+                "require github.com/spf13/cobra v1.8.0",
+                "require (",
+                "    golang.org/x/sync v0.6.0",
+                "    golang.org/x/sys v0.17.0 // indirect",
+                ")",
+            ].join("\n"),
+        }]);
+
+        expect(facts.runtimes.go).toBe("1.22");
+        expect(facts.dependencies.map((d) => [d.name, d.version])).toEqual([
+            ["github.com/spf13/cobra", "v1.8.0"],
+            ["golang.org/x/sync", "v0.6.0"],
+        ]);
+    });
+
+    it("reads plain and inline-table versions from Cargo.toml", () => {
+        const facts = parseManifests([{
+            path: "Cargo.toml",
+            content: [
+                "[package]",
+                'edition = "2021"',
+                "",
+                "[dependencies]",
+                'serde = { version = "1.0", features = ["derive"] }',
+                'tokio = "1.36"',
+                "",
+                "[dev-dependencies]",
+                'criterion = "0.5"',
+            ].join("\n"),
+        }]);
+
+        expect(facts.runtimes["rust-edition"]).toBe("2021");
+        expect(facts.dependencies.map((d) => [d.name, d.version, d.dev])).toEqual([
+            ["serde", "1.0", false],
+            ["tokio", "1.36", false],
+            ["criterion", "0.5", true],
+        ]);
+    });
+
+    it("reads bindings from wrangler.toml and commented wrangler.jsonc", () => {
+        const toml = parseManifests([{
+            path: "wrangler.toml",
+            content: [
+                'compatibility_date = "2024-09-23"',
+                "",
+                "[[d1_databases]]",
+                'binding = "DB"',
+                "",
+                "[ai]",
+                'binding = "AI"',
+            ].join("\n"),
+        }]);
+        const jsonc = parseManifests([{
+            path: "wrangler.jsonc",
+            content: [
+                "{",
+                "  // Routes the cache through KV.",
+                '  "compatibility_date": "2024-10-01",',
+                '  "kv_namespaces": [{ "binding": "CACHE", "id": "abc" }],',
+                "}",
+            ].join("\n"),
+        }]);
+
+        expect(toml.runtimes["workers-compatibility-date"]).toBe("2024-09-23");
+        expect(toml.cloudflareBindings).toEqual(["d1_databases", "ai"]);
+        expect(jsonc.runtimes["workers-compatibility-date"]).toBe("2024-10-01");
+        expect(jsonc.cloudflareBindings).toEqual(["kv_namespaces"]);
+    });
+
+    it("collects base images and deduplicated CI actions", () => {
+        const facts = parseManifests([
+            {
+                path: "Dockerfile",
+                content: "FROM --platform=linux/amd64 node:20 AS build\nFROM scratch\n",
+            },
+            {
+                path: ".github/workflows/ci.yml",
+                content: "steps:\n  - uses: actions/checkout@v4\n  - uses: actions/checkout@v3\n  - uses: 'oven-sh/setup-bun@v1'\n",
+            },
+        ]);
+
+        expect(facts.containerImages).toEqual(["node:20"]);
+        expect(facts.ciActions).toEqual(["actions/checkout", "oven-sh/setup-bun"]);
+        expect(facts.tooling).toEqual(["docker", "github-actions"]);
+    });
+
+    it("lists malformed manifests without failing", () => {
+        const facts = parseManifests([{ path: "package.json", content: "{ not json" }]);
+
+        expect(facts.files).toEqual(["package.json"]);
+        expect(facts.dependencies).toEqual([]);
+    });
+});
+
+describe("formatManifestFacts", () => {
+    it("caps the dependency list", () => {
+        const facts = parseManifests([{
+            path: "package.json",
+            content: JSON.stringify({ dependencies: { a: "1", b: "2", c: "3" } }),
+        }]);
+
+        expect(formatManifestFacts(facts, 2)).toContain("Dependencies (3): npm:a@1, npm:b@2, ... and 1 more");
+    });
+
+    it("reports when no manifests were read", () => {
+        expect(formatManifestFacts(parseManifests([]))).toBe("No manifests found.");
+    });
+});
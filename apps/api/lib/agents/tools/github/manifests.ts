@@ -0,0 +1,360 @@
+/**
+ * @file Manifest discovery and parsing for repository analysis.
+ * @description Picks the dependency and tooling manifests out of a repository
+ * tree and turns their raw contents into structured facts. The parsers are
+ * deliberately line-based: they only need the dependency names, versions and a
+ * few tooling markers, not a full TOML/YAML implementation.
+ */
+
+import type { ManifestDependency, ManifestFacts } from "./types";
+
+// Manifest file names recognized anywhere up to MAX_MANIFEST_DEPTH levels deep.
+const MANIFEST_FILES = new Set([
+    "package.json",
+    "pyproject.toml",
+    "requirements.txt",
+    "go.mod",
+    "Cargo.toml",
+    "wrangler.toml",
+    "wrangler.jsonc",
+    "wrangler.json",
+    "Dockerfile",
+]);
+
+const MAX_MANIFEST_DEPTH = 2;
+const MAX_MANIFESTS = 12;
+
+// Dev dependencies that say something about how the project is built and tested.
+const NPM_TOOLING: Record<string, string> = {
+    "typescript": "typescript",
+    "vitest": "vitest",
+    "jest": "jest",
+    "mocha": "mocha",
+    "eslint": "eslint",
+    "prettier": "prettier",
+    "@biomejs/biome": "biome",
+    "vite": "vite",
+    "webpack": "webpack",
+    "esbuild": "esbuild",
+    "wrangler": "wrangler",
+    "drizzle-kit": "drizzle",
+    "prisma": "prisma",
+};
+
+/**
+ * Selects the manifests worth reading from a recursive tree listing: root and
+ * shallow manifests first, then CI workflows, capped at MAX_MANIFESTS.
+ */
+export function selectManifestPaths(paths: string[]): string[] {
+    const manifests = paths
+        .filter((path) => {
+            const parts = path.split("/");
+            const name = parts[parts.length - 1];
+            return parts.length <= MAX_MANIFEST_DEPTH && MANIFEST_FILES.has(name);
+        })
+        .sort((a, b) => a.split("/").length - b.split("/").length);
+
+    const workflows = paths.filter((path) => /^\.github\/workflows\/[^/]+\.ya?ml$/.test(path));
+
+    return [...manifests, ...workflows].slice(0, MAX_MANIFESTS);
+}
+
+/**
+ * Parses the given manifest files into combined dependency and tooling facts.
+ * Files that fail to parse are still listed in `files` but contribute nothing else.
+ */
+export function parseManifests(files: { path: string, content: string }[]): ManifestFacts {
+    const facts: ManifestFacts = {
+        files: files.map((f) => f.path),
+        ecosystems: [],
+        dependencies: [],
+        tooling: [],
+        runtimes: {},
+        containerImages: [],
+        ciActions: [],
+        cloudflareBindings: [],
+    };
+
+    for (const file of files) {
+        const name = file.path.split("/").pop() ?? file.path;
+        try {
+            if (name === "package.json") parsePackageJson(file, facts);
+            else if (name === "pyproject.toml") parsePyproject(file, facts);
+            else if (name === "requirements.txt") parseRequirements(file, facts);
+            else if (name === "go.mod") parseGoMod(file, facts);
+            else if (name === "Cargo.toml") parseCargo(file, facts);
+            else if (name.startsWith("wrangler.")) parseWrangler(file, facts);
+            else if (name === "Dockerfile") parseDockerfile(file, facts);
+            else if (file.path.startsWith(".github/workflows/")) parseWorkflow(file, facts);
+        } catch (e) {
+            // Malformed manifests are common in the wild; skip rather than fail the analysis.
+            console.warn(`[manifests] Failed to parse ${file.path}:`, e);
+        }
+    }
+
+    facts.ecosystems = unique(facts.ecosystems);
+    facts.tooling = unique(facts.tooling);
+    facts.containerImages = unique(facts.containerImages);
+    facts.ciActions = unique(facts.ciActions);
+    facts.cloudflareBindings = unique(facts.cloudflareBindings);
+    return facts;
+}
+
+function parsePackageJson(file: { path: string, content: string }, facts: ManifestFacts) {
+    const pkg = JSON.parse(file.content);
+    facts.ecosystems.push("npm");
+
+    const add = (deps: Record<string, string> | undefined, dev: boolean) => {
+        for (const [name, version] of Object.entries(deps ?? {})) {
+            addDependency(facts, { ecosystem: "npm", name, version, dev, source: file.path });
+            if (NPM_TOOLING[name]) facts.tooling.push(NPM_TOOLING[name]);
+        }
+    };
+    add(pkg.dependencies, false);
+    add(pkg.devDependencies, true);
+
+    if (pkg.engines?.node) facts.runtimes.node = pkg.engines.node;
+    if (pkg.packageManager) facts.tooling.push(String(pkg.packageManager).split("@")[0]);
+    if (pkg.workspaces) facts.tooling.push("workspaces");
+}
+
+function parsePyproject(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.ecosystems.push("pypi");
+    const tables = parseTomlTables(file.content);
+
+    // PEP 621: [project] dependencies = ["name>=1.0", ...]
+    for (const spec of readTomlArray(tables["project"]?.dependencies)) {
+        addDependency(facts, { ecosystem: "pypi", ...splitPep508(spec), dev: false, source: file.path });
+    }
+    const requiresPython = unquote(tables["project"]?.["requires-python"]);
+    if (requiresPython) facts.runtimes.python = requiresPython;
+
+    // Poetry: [tool.poetry.dependencies] name = "^1.0"
+    for (const [table, dev] of [["tool.poetry.dependencies", false], ["tool.poetry.group.dev.dependencies", true]] as const) {
+        for (const [name, value] of Object.entries(tables[table] ?? {})) {
+            if (name === "python") {
+                facts.runtimes.python = unquote(value) ?? value;
+                continue;
+            }
+            addDependency(facts, { ecosystem: "pypi", name, version: unquote(value) ?? value, dev, source: file.path });
+        }
+    }
+
+    // [tool.pytest.ini_options], [tool.ruff], [tool.mypy], ... name the tooling in use.
+    for (const table of Object.keys(tables)) {
+        const match = table.match(/^tool\.([\w-]+)/);
+        if (match) facts.tooling.push(match[1]);
+    }
+    for (const spec of readTomlArray(tables["build-system"]?.requires)) {
+        facts.tooling.push(splitPep508(spec).name);
+    }
+}
+
+function parseRequirements(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.ecosystems.push("pypi");
+    for (const raw of file.content.split("\n")) {
+        const line = raw.split("#")[0].trim();
+        // Skip options such as "-r base.txt" or "--index-url".
+        if (!line || line.startsWith("-")) continue;
+        addDependency(facts, { ecosystem: "pypi", ...splitPep508(line), dev: false, source: file.path });
+    }
+}
+
+function parseGoMod(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.ecosystems.push("go");
+    let inRequire = false;
+    for (const raw of file.content.split("\n")) {
+        const line = raw.split("//")[0].trim();
+        if (!line) continue;
+
+        if (line.startsWith("go ")) {
+            facts.runtimes.go = line.slice(3).trim();
+        } else if (line === "require (") {
+            inRequire = true;
+        } else if (inRequire && line === ")") {
+            inRequire = false;
+        } else if (inRequire || line.startsWith("require ")) {
+            const [name, version] = line.replace(/^require\s+/, "").split(/\s+/);
+            const indirect = raw.includes("// indirect");
+            if (name && !indirect) {
+                addDependency(facts, { ecosystem: "go", name, version, dev: false, source: file.path });
+            }
+        }
+    }
+}
+
+function parseCargo(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.ecosystems.push("cargo");
+    const tables = parseTomlTables(file.content);
+
+    const edition = unquote(tables["package"]?.edition);
+    if (edition) facts.runtimes["rust-edition"] = edition;
+    const rustVersion = unquote(tables["package"]?.["rust-version"]);
+    if (rustVersion) facts.runtimes.rust = rustVersion;
+
+    for (const [table, dev] of [["dependencies", false], ["dev-dependencies", true], ["build-dependencies", true]] as const) {
+        for (const [name, value] of Object.entries(tables[table] ?? {})) {
+            // Either `name = "1.0"` or `name = { version = "1.0", features = [...] }`.
+            const version = unquote(value) ?? value.match(/version\s*=\s*"([^"]+)"/)?.[1];
+            addDependency(facts, { ecosystem: "cargo", name, version, dev, source: file.path });
+        }
+    }
+}
+
+function parseWrangler(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.tooling.push("cloudflare-workers");
+    const bindingKeys = [
+        "kv_namespaces",
+        "d1_databases",
+        "r2_buckets",
+        "durable_objects",
+        "queues",
+        "vectorize",
+        "hyperdrive",
+        "ai",
+        "browser",
+        "workflows",
+        "services",
+    ];
+
+    if (file.path.endsWith(".toml")) {
+        const tables = parseTomlTables(file.content);
+        const date = unquote(tables[""]?.compatibility_date);
+        if (date) facts.runtimes["workers-compatibility-date"] = date;
+        for (const table of Object.keys(tables)) {
+            const root = table.split(".")[0];
+            if (bindingKeys.includes(root)) facts.cloudflareBindings.push(root);
+        }
+        return;
+    }
+
+    const config = JSON.parse(stripJsonComments(file.content));
+    if (config.compatibility_date) facts.runtimes["workers-compatibility-date"] = config.compatibility_date;
+    for (const key of bindingKeys) {
+        if (config[key]) facts.cloudflareBindings.push(key);
+    }
+}
+
+function parseDockerfile(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.tooling.push("docker");
+    for (const line of file.content.split("\n")) {
+        const match = line.trim().match(/^FROM\s+(?:--platform=\S+\s+)?(\S+)/i);
+        if (match && match[1].toLowerCase() !== "scratch") {
+            facts.containerImages.push(match[1]);
+        }
+    }
+}
+
+function parseWorkflow(file: { path: string, content: string }, facts: ManifestFacts) {
+    facts.tooling.push("github-actions");
+    for (const line of file.content.split("\n")) {
+        const match = line.match(/^\s*-?\s*uses:\s*["']?([^"'\s#]+)/);
+        // Drop the @ref so the same action pinned to different versions dedupes.
+        if (match) facts.ciActions.push(match[1].split("@")[0]);
+    }
+}
+
+
+// --- Helpers ---
+
+function addDependency(facts: ManifestFacts, dependency: ManifestDependency) {
+    const exists = facts.dependencies.some(
+        (d) => d.ecosystem === dependency.ecosystem && d.name === dependency.name,
+    );
+    if (!exists && dependency.name) facts.dependencies.push(dependency);
+}
+
+/**
+ * Minimal TOML reader: maps each `[table]` header (root is "") to its raw
+ * `key = value` strings. Multi-line arrays are joined into one value.
+ */
+function parseTomlTables(content: string): Record<string, Record<string, string>> {
+    const tables: Record<string, Record<string, string>> = { "": {} };
+    let current = "";
+    let pendingKey: string | null = null;
+    let pendingValue = "";
+
+    for (const raw of content.split("\n")) {
+        const line = raw.replace(/\s+#.*$/, "").trim();
+        if (!line || line.startsWith("#")) continue;
+
+        if (pendingKey) {
+            pendingValue += " " + line;
+            if (line.endsWith("]")) {
+                tables[current][pendingKey] = pendingValue;
+                pendingKey = null;
+            }
+            continue;
+        }
+
+        const header = line.match(/^\[\[?([^\]]+)\]\]?$/);
+        if (header) {
+            current = header[1].trim();
+            tables[current] ??= {};
+            continue;
+        }
+
+        const pair = line.match(/^([\w.\-"]+)\s*=\s*(.*)$/);
+        if (!pair) continue;
+        const key = pair[1].replace(/"/g, "");
+        const value = pair[2];
+        if (value.startsWith("[") && !value.endsWith("]")) {
+            pendingKey = key;
+            pendingValue = value;
+        } else {
+            tables[current][key] = value;
+        }
+    }
+    return tables;
+}
+
+function readTomlArray(value: string | undefined): string[] {
+    if (!value) return [];
+    return [...value.matchAll(/"([^"]+)"|'([^']+)'/g)].map((m) => m[1] ?? m[2]);
+}
+
+function unquote(value: string | undefined): string | undefined {
+    return value?.match(/^["'](.*)["']$/)?.[1];
+}
+
+// "requests[socks]>=2.31 ; python_version<'3.12'" -> { name: "requests", version: ">=2.31" }
+function splitPep508(spec: string): { name: string, version?: string } {
+    const clean = spec.split(";")[0].trim();
+    const match = clean.match(/^([A-Za-z0-9_.-]+)(?:\[[^\]]*\])?\s*(.*)$/);
+    if (!match) return { name: clean };
+    return { name: match[1], version: match[2] || undefined };
+}
+
+function stripJsonComments(content: string): string {
+    return content
+        .replace(/("(?:\\.|[^"\\])*")|\/\*[\s\S]*?\*\/|\/\/.*$/gm, (_, str) => str ?? "")
+        .replace(/,(\s*[}\]])/g, "$1");
+}
+
+function unique(values: string[]): string[] {
+    return [...new Set(values)];
+}
+
+/**
+ * Renders manifest facts as a compact block for analysis prompts. Dependency
+ * lists are capped so huge lockfile-style manifests don't crowd out the README.
+ */
+export function formatManifestFacts(facts: ManifestFacts, maxDependencies = 60): string {
+    if (facts.files.length === 0) return "No manifests found.";
+
+    const deps = facts.dependencies.slice(0, maxDependencies).map(
+        (d) => `${d.ecosystem}:${d.name}${d.version ? `@${d.version}` : ""}${d.dev ? " (dev)" : ""}`,
+    );
+    const omitted = facts.dependencies.length - deps.length;
+
+    return [
+        `Manifests read: ${facts.files.join(", ")}`,
+        `Ecosystems: ${facts.ecosystems.join(", ") || "none"}`,
+        `Runtimes: ${Object.entries(facts.runtimes).map(([k, v]) => `${k} ${v}`).join(", ") || "unknown"}`,
+        `Tooling: ${facts.tooling.join(", ") || "none detected"}`,
+        facts.containerImages.length ? `Container images: ${facts.containerImages.join(", ")}` : "",
+        facts.ciActions.length ? `CI actions: ${facts.ciActions.join(", ")}` : "",
+        facts.cloudflareBindings.length ? `Cloudflare bindings: ${facts.cloudflareBindings.join(", ")}` : "",
+        `Dependencies (${facts.dependencies.length}): ${deps.join(", ")}${omitted > 0 ? `, ... and ${omitted} more` : ""}`,
+    ].filter(Boolean).join("\n");
+}
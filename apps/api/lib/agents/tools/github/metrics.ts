@@ -0,0 +1,203 @@
+/**
+ * @file Repository health metrics for repository analysis.
+ * @description Collects activity, maintenance and community signals for a
+ * repository: last commit, release cadence, issue ratio, PR merge time,
+ * contributor count and bus factor. One GraphQL query covers most of it; the
+ * contributor list is only available over REST.
+ */
+
+import { getGraphql, getOctokit } from "../../../client/github/octokit/core";
+import type { RepoHealthMetrics } from "./types";
+
+// Enough recent releases and merged PRs for a stable median without paging.
+const RELEASE_SAMPLE = 20;
+const PULL_REQUEST_SAMPLE = 50;
+
+// Share of default-branch commits the bus factor's top contributors must cover.
+const BUS_FACTOR_SHARE = 0.5;
+
+const HEALTH_QUERY = `
+    query RepoHealth($owner: String!, $name: String!, $releases: Int!, $pullRequests: Int!) {
+        repository(owner: $owner, name: $name) {
+            isArchived
+            isFork
+            defaultBranchRef {
+                target {
+                    ... on Commit {
+                        committedDate
+                    }
+                }
+            }
+            releases(first: $releases, orderBy: { field: CREATED_AT, direction: DESC }) {
+                totalCount
+                nodes {
+                    publishedAt
+                }
+            }
+            openIssues: issues(states: OPEN) {
+                totalCount
+            }
+            closedIssues: issues(states: CLOSED) {
+                totalCount
+            }
+            pullRequests(states: MERGED, first: $pullRequests, orderBy: { field: CREATED_AT, direction: DESC }) {
+                nodes {
+                    createdAt
+                    mergedAt
+                }
+            }
+        }
+    }
+`;
+
+interface HealthQueryResult {
+    repository: {
+        isArchived: boolean;
+        isFork: boolean;
+        defaultBranchRef: { target: { committedDate?: string } } | null;
+        releases: { totalCount: number, nodes: { publishedAt: string | null }[] };
+        openIssues: { totalCount: number };
+        closedIssues: { totalCount: number };
+        pullRequests: { nodes: { createdAt: string, mergedAt: string | null }[] };
+    };
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) {
+        return null;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function round(value: number | null, digits = 1): number | null {
+    if (value === null) {
+        return null;
+    }
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+}
+
+/**
+ * The fewest contributors who together authored BUS_FACTOR_SHARE of the commits.
+ * `contributions` must be sorted descending, as GitHub returns them.
+ */
+function busFactor(contributions: number[]): number | null {
+    const total = contributions.reduce((sum, n) => sum + n, 0);
+    if (total === 0) {
+        return null;
+    }
+    let covered = 0;
+    for (let i = 0; i < contributions.length; i++) {
+        covered += contributions[i];
+        if (covered >= total * BUS_FACTOR_SHARE) {
+            return i + 1;
+        }
+    }
+    return contributions.length;
+}
+
+/**
+ * Reads the contributor count and the commit counts of the top 100 contributors.
+ * GitHub refuses to list contributors for very large repositories, so both are
+ * null when the list is unavailable.
+ */
+async function collectContributors(env: Env, owner: string, repo: string) {
+    const octokit = getOctokit(env);
+    try {
+        const { data: top } = await octokit.rest.repos.listContributors({ owner, repo, per_page: 100 });
+        if (!Array.isArray(top) || top.length === 0) {
+            return { contributorCount: 0, busFactor: null };
+        }
+
+        // With one contributor per page, the "last" page number is the contributor count.
+        let contributorCount = top.length;
+        if (top.length === 100) {
+            const { headers } = await octokit.rest.repos.listContributors({ owner, repo, per_page: 1 });
+            const last = headers.link?.match(/[?&]page=(\d+)>; rel="last"/);
+            if (last) {
+                contributorCount = Number(last[1]);
+            }
+        }
+
+        return {
+            contributorCount,
+            busFactor: busFactor(top.map((c) => c.contributions)),
+        };
+    } catch {
+        return { contributorCount: null, busFactor: null };
+    }
+}
+
+/**
+ * GitHub API requests collectRepoHealth made for `metrics`: the GraphQL query,
+ * the contributor list and, for 100 contributors or more, the count lookup.
+ */
+export function repoHealthCallCount(metrics: RepoHealthMetrics): number {
+    return metrics.contributorCount !== null && metrics.contributorCount >= 100 ? 3 : 2;
+}
+
+/**
+ * Collects the health metrics for `owner/repo`.
+ */
+export async function collectRepoHealth(env: Env, owner: string, repo: string): Promise<RepoHealthMetrics> {
+    const gql = getGraphql(env);
+    const { repository } = await gql<HealthQueryResult>(HEALTH_QUERY, {
+        owner,
+        name: repo,
+        releases: RELEASE_SAMPLE,
+        pullRequests: PULL_REQUEST_SAMPLE,
+    });
+
+    const releaseDates = repository.releases.nodes
+        .map((r) => r.publishedAt)
+        .filter((d): d is string => !!d)
+        .map((d) => Date.parse(d));
+    const releaseIntervals: number[] = [];
+    for (let i = 1; i < releaseDates.length; i++) {
+        releaseIntervals.push(Math.abs(releaseDates[i - 1] - releaseDates[i]) / 86_400_000);
+    }
+
+    const mergeHours = repository.pullRequests.nodes
+        .filter((pr) => pr.mergedAt)
+        .map((pr) => (Date.parse(pr.mergedAt as string) - Date.parse(pr.createdAt)) / 3_600_000);
+
+    const openIssues = repository.openIssues.totalCount;
+    const closedIssues = repository.closedIssues.totalCount;
+
+    return {
+        archived: repository.isArchived,
+        fork: repository.isFork,
+        lastCommitAt: repository.defaultBranchRef?.target.committedDate ?? null,
+        releaseCount: repository.releases.totalCount,
+        lastReleaseAt: releaseDates.length ? new Date(releaseDates[0]).toISOString() : null,
+        medianReleaseIntervalDays: round(median(releaseIntervals)),
+        openIssues,
+        closedIssues,
+        openIssueRatio: openIssues + closedIssues ? round(openIssues / (openIssues + closedIssues), 3) : null,
+        medianPrMergeHours: round(median(mergeHours)),
+        ...(await collectContributors(env, owner, repo)),
+        collectedAt: new Date().toISOString(),
+    };
+}
+
+/**
+ * Renders the metrics as plain lines for an LLM prompt.
+ */
+export function formatRepoHealth(metrics: RepoHealthMetrics | null): string {
+    if (!metrics) {
+        return "Health metrics unavailable.";
+    }
+    const orUnknown = (value: unknown, suffix = "") => value === null ? "unknown" : `${value}${suffix}`;
+    return [
+        `Archived: ${metrics.archived ? "yes" : "no"}`,
+        `Fork: ${metrics.fork ? "yes" : "no"}`,
+        `Last commit on default branch: ${orUnknown(metrics.lastCommitAt)}`,
+        `Releases: ${metrics.releaseCount} (last ${orUnknown(metrics.lastReleaseAt)}, median interval ${orUnknown(metrics.medianReleaseIntervalDays, " days")})`,
+        `Issues: ${metrics.openIssues} open / ${metrics.closedIssues} closed (open ratio ${orUnknown(metrics.openIssueRatio)})`,
+        `Median PR merge time (last ${PULL_REQUEST_SAMPLE} merged): ${orUnknown(metrics.medianPrMergeHours, " hours")}`,
+        `Contributors: ${orUnknown(metrics.contributorCount)}`,
+        `Bus factor (contributors covering ${BUS_FACTOR_SHARE * 100}% of commits): ${orUnknown(metrics.busFactor)}`,
+    ].join("\n");
+}
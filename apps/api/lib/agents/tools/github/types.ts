@@ -22,3 +22,58 @@ export interface GitHubContent {
         html: string;
     }
 }
+
+/**
+ * A repository as returned by repository search; only the fields the candidate
+ * search reads are listed.
+ */
+export interface RepoSearchHit {
+    full_name: string;
+    html_url: string;
+    description: string | null;
+    stargazers_count: number;
+    language: string | null;
+}
+
+export interface TopicSearchHit {
+    name: string;
+}
+
+export interface SearchHits<T> {
+    items: T[];
+}
+
+export interface ManifestDependency {
+    ecosystem: "npm" | "pypi" | "go" | "cargo";
+    name: string;
+    version?: string;
+    dev?: boolean;
+    source: string;
+}
+
+export interface ManifestFacts {
+    files: string[];
+    ecosystems: string[];
+    dependencies: ManifestDependency[];
+    tooling: string[];
+    runtimes: Record<string, string>;
+    containerImages: string[];
+    ciActions: string[];
+    cloudflareBindings: string[];
+}
+
+export interface RepoHealthMetrics {
+    archived: boolean;
+    fork: boolean;
+    lastCommitAt: string | null;
+    releaseCount: number;
+    lastReleaseAt: string | null;
+    medianReleaseIntervalDays: number | null;
+    openIssues: number;
+    closedIssues: number;
+    openIssueRatio: number | null;
+    medianPrMergeHours: number | null;
+    contributorCount: number | null;
+    busFactor: number | null;
+    collectedAt: string;
+}
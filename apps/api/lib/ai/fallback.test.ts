@@ -0,0 +1,207 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type * as Fallback from "./fallback";
+
+// The circuit breakers live at module level, so every test gets a fresh module.
+let fallback: typeof Fallback;
+
+const NO_RETRY: Fallback.RetryPolicy = {
+  maxAttempts: 1,
+  baseDelayMs: 0,
+  maxDelayMs: 0,
+};
+
+beforeEach(async () => {
+  vi.resetModules();
+  fallback = await import("./fallback");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("getFallbackChain", () => {
+  it("starts at the requested provider and skips repeats", () => {
+    expect(fallback.getFallbackChain({} as Env, "gemini")).toEqual([
+      "gemini",
+      "worker-ai",
+      "openai",
+    ]);
+  });
+
+  it("reads AI_FALLBACK_CHAIN and ignores unknown providers", () => {
+    const env = {
+      AI_FALLBACK_CHAIN: "openai, bedrock ,gemini",
+    } as unknown as Env;
+
+    expect(fallback.getFallbackChain(env, "worker-ai")).toEqual([
+      "worker-ai",
+      "openai",
+      "gemini",
+    ]);
+  });
+
+  it("disables fallback for an empty chain", () => {
+    const env = { AI_FALLBACK_CHAIN: "" } as unknown as Env;
+
+    expect(fallback.getFallbackChain(env, "openai")).toEqual(["openai"]);
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each([408, 429, 500, 503])("retries HTTP %i", (status) => {
+    expect(fallback.isRetryableError({ status })).toBe(true);
+  });
+
+  it("reads the status from statusCode and response.status", () => {
+    expect(fallback.isRetryableError({ statusCode: 502 })).toBe(true);
+    expect(fallback.isRetryableError({ response: { status: 400 } })).toBe(
+      false,
+    );
+  });
+
+  it("does not retry client errors, whatever the message", () => {
+    expect(
+      fallback.isRetryableError(
+        Object.assign(new Error("rate limit"), { status: 400 }),
+      ),
+    ).toBe(false);
+  });
+
+  it("falls back to the message without a status", () => {
+    expect(fallback.isRetryableError(new Error("Request timed out"))).toBe(
+      true,
+    );
+    expect(fallback.isRetryableError("fetch failed")).toBe(true);
+    expect(fallback.isRetryableError(new Error("invalid schema"))).toBe(false);
+    expect(fallback.isRetryableError(null)).toBe(false);
+  });
+});
+
+describe("withFallback", () => {
+  it("moves down the chain on a non-retryable error", async () => {
+    const call = vi.fn(async (provider: Fallback.AIProvider) => {
+      if (provider === "worker-ai") throw new Error("invalid request");
+      return provider;
+    });
+
+    const result = await fallback.withFallback(
+      ["worker-ai", "gemini"],
+      { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+      call,
+    );
+
+    expect(result.value).toBe("gemini");
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(result.attempts.map((a) => [a.provider, a.ok])).toEqual([
+      ["worker-ai", false],
+      ["gemini", true],
+    ]);
+  });
+
+  it("retries retryable errors on the same provider", async () => {
+    let calls = 0;
+    const result = await fallback.withFallback(
+      ["openai"],
+      { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+      async () => {
+        calls += 1;
+        if (calls < 3) throw Object.assign(new Error("busy"), { status: 503 });
+        return "ok";
+      },
+    );
+
+    expect(result.value).toBe("ok");
+    expect(result.attempts.map((a) => a.attempt)).toEqual([1, 2, 3]);
+  });
+
+  it("throws with every attempt once the chain is exhausted", async () => {
+    const error = await fallback
+      .withFallback(["gemini", "openai"], NO_RETRY, async (provider) => {
+        throw new Error(`${provider} down`);
+      })
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(fallback.FallbackExhaustedError);
+    expect((error as Fallback.FallbackExhaustedError).message).toBe(
+      "All providers failed (gemini#1: Error: gemini down; openai#1: Error: openai down)",
+    );
+  });
+});
+
+describe("circuit breaker", () => {
+  const failing = async (): Promise<string> => {
+    throw new Error("invalid request");
+  };
+
+  async function failTimes(count: number) {
+    for (let i = 0; i < count; i++) {
+      await fallback
+        .withFallback(["gemini"], NO_RETRY, failing)
+        .catch(() => {});
+    }
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2025-06-01T00:00:00Z"));
+  });
+
+  it("skips a provider after five consecutive failures", async () => {
+    await failTimes(5);
+    const call = vi.fn(async () => "answer");
+
+    const result = await fallback.withFallback(
+      ["gemini", "openai"],
+      NO_RETRY,
+      call,
+    );
+
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(call).toHaveBeenCalledWith("openai");
+    expect(result.attempts[0]).toMatchObject({
+      provider: "gemini",
+      ok: false,
+      skipped: "circuit_open",
+    });
+  });
+
+  it("resets the failure count on success", async () => {
+    await failTimes(4);
+    await fallback.withFallback(["gemini"], NO_RETRY, async () => "answer");
+    await failTimes(4);
+    const call = vi.fn(async () => "answer");
+
+    await fallback.withFallback(["gemini"], NO_RETRY, call);
+
+    expect(call).toHaveBeenCalledWith("gemini");
+  });
+
+  it("closes after a successful trial call once the cooldown is over", async () => {
+    await failTimes(5);
+    vi.advanceTimersByTime(60_000);
+
+    const trial = await fallback.withFallback(
+      ["gemini"],
+      NO_RETRY,
+      async () => "answer",
+    );
+    await failTimes(4);
+    const call = vi.fn(async () => "answer");
+    await fallback.withFallback(["gemini"], NO_RETRY, call);
+
+    expect(trial.value).toBe("answer");
+    expect(call).toHaveBeenCalledWith("gemini");
+  });
+
+  it("reopens after a failed trial call", async () => {
+    await failTimes(5);
+    vi.advanceTimersByTime(60_000);
+    await failTimes(1);
+    const call = vi.fn(async () => "answer");
+
+    await expect(
+      fallback.withFallback(["gemini"], NO_RETRY, call),
+    ).rejects.toBeInstanceOf(fallback.FallbackExhaustedError);
+    expect(call).not.toHaveBeenCalled();
+  });
+});
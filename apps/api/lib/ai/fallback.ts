@@ -0,0 +1,216 @@
+/**
+ * @module Fallback
+ * @description Provider fallback chains, retries and circuit breaking for model calls.
+ * * A generation starts at the provider the caller asked for and, when that one
+ * fails, moves down the fallback chain. Retryable errors (rate limits, timeouts,
+ * 5xx, capacity) are retried on the same provider with exponential backoff and
+ * jitter first; any other error moves on at once.
+ * * Each provider has a circuit breaker, shared by everything running in the
+ * isolate: after CIRCUIT_FAILURE_THRESHOLD consecutive failures it opens and
+ * the provider is skipped for CIRCUIT_COOLDOWN_MS. The first call after the
+ * cooldown is a trial; it closes the circuit on success and reopens it on failure.
+ * * The chain after the requested provider defaults to DEFAULT_FALLBACK_CHAIN and
+ * can be set with the `AI_FALLBACK_CHAIN` variable, a comma-separated list such
+ * as "worker-ai,gemini,openai". An empty value disables fallback.
+ */
+
+export type AIProvider = "gemini" | "openai" | "worker-ai";
+
+export const AI_PROVIDERS: readonly AIProvider[] = ["worker-ai", "gemini", "openai"];
+
+export const DEFAULT_FALLBACK_CHAIN: readonly AIProvider[] = AI_PROVIDERS;
+
+export interface RetryPolicy {
+  /** Attempts per provider, the first one included. */
+  maxAttempts: number;
+  /** Wait before the first retry; doubled for every further one. */
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+const RETRYABLE_MESSAGE =
+  /rate.?limit|too many requests|quota|timed? ?out|timeout|overloaded|unavailable|capacity|ECONNRESET|fetch failed|network/i;
+
+/**
+ * The providers to try, in order: `primary`, then the configured chain (or
+ * `override`) without repeats.
+ */
+export function getFallbackChain(env: Env, primary: AIProvider, override?: readonly AIProvider[]): AIProvider[] {
+  const configured = (env as Env & { AI_FALLBACK_CHAIN?: string }).AI_FALLBACK_CHAIN;
+  const chain: readonly AIProvider[] =
+    override ??
+    (typeof configured === "string"
+      ? configured
+          .split(",")
+          .map((name) => name.trim())
+          .filter((name): name is AIProvider => AI_PROVIDERS.includes(name as AIProvider))
+      : DEFAULT_FALLBACK_CHAIN);
+  return [...new Set([primary, ...chain])];
+}
+
+/** The fields SDK and fetch errors describe a failure with. */
+interface ProviderErrorLike {
+  message?: unknown;
+  status?: unknown;
+  statusCode?: unknown;
+  response?: { status?: unknown } | null;
+}
+
+/**
+ * Whether an SDK or fetch error is worth retrying on the same provider.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (typeof error !== "object" || error === null) {
+    return RETRYABLE_MESSAGE.test(String(error));
+  }
+  const { message, status, statusCode, response } = error as ProviderErrorLike;
+  const httpStatus = status ?? statusCode ?? response?.status;
+  if (typeof httpStatus === "number") {
+    return httpStatus === 408 || httpStatus === 429 || httpStatus >= 500;
+  }
+  return RETRYABLE_MESSAGE.test(String(message ?? error));
+}
+
+/** The wait before retry number `attempt` (1-based): exponential, capped, with jitter. */
+export function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+
+  canAttempt(now = Date.now()): boolean {
+    return now >= this.openUntil;
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  recordFailure(now = Date.now()) {
+    this.failures += 1;
+    if (this.failures >= CIRCUIT_FAILURE_THRESHOLD) {
+      this.openUntil = now + CIRCUIT_COOLDOWN_MS;
+      // Half-open after the cooldown: a single failed trial reopens the circuit.
+      this.failures = CIRCUIT_FAILURE_THRESHOLD - 1;
+    }
+  }
+}
+
+const breakers = new Map<AIProvider, CircuitBreaker>();
+
+function circuitBreaker(provider: AIProvider): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker();
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+export interface AttemptRecord {
+  provider: AIProvider;
+  /** 1-based, per provider. */
+  attempt: number;
+  ok: boolean;
+  error?: string;
+  retryable?: boolean;
+  /** Set when the provider was not called because its circuit is open. */
+  skipped?: "circuit_open";
+  /** The wait before the next attempt on the same provider, if there is one. */
+  retryInMs?: number;
+  latencyMs: number;
+}
+
+export type AttemptListener = (attempt: AttemptRecord) => void | Promise<void>;
+
+export interface FallbackResult<T> {
+  value: T;
+  provider: AIProvider;
+  attempts: AttemptRecord[];
+}
+
+/**
+ * Thrown when every provider in the chain failed or was skipped.
+ */
+export class FallbackExhaustedError extends Error {
+  constructor(
+    public attempts: AttemptRecord[],
+    public lastError: unknown,
+  ) {
+    const failures = attempts
+      .filter((a) => !a.ok)
+      .map((a) => `${a.provider}#${a.attempt}: ${a.skipped ?? a.error}`);
+    super(`All providers failed (${failures.join("; ")})`);
+    this.name = "FallbackExhaustedError";
+  }
+}
+
+/**
+ * Calls `call` with each provider of `chain` until one succeeds, retrying
+ * retryable errors per `policy`. `onAttempt` hears about every attempt,
+ * including skipped ones, before the next one starts.
+ */
+export async function withFallback<T>(
+  chain: readonly AIProvider[],
+  policy: RetryPolicy,
+  call: (provider: AIProvider) => Promise<T>,
+  onAttempt?: AttemptListener,
+): Promise<FallbackResult<T>> {
+  const attempts: AttemptRecord[] = [];
+  let lastError: unknown;
+
+  for (const provider of chain) {
+    const breaker = circuitBreaker(provider);
+    if (!breaker.canAttempt()) {
+      const record: AttemptRecord = { provider, attempt: 0, ok: false, skipped: "circuit_open", latencyMs: 0 };
+      attempts.push(record);
+      await onAttempt?.(record);
+      continue;
+    }
+
+    for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+      const start = Date.now();
+      try {
+        const value = await call(provider);
+        breaker.recordSuccess();
+        const record: AttemptRecord = { provider, attempt, ok: true, latencyMs: Date.now() - start };
+        attempts.push(record);
+        await onAttempt?.(record);
+        return { value, provider, attempts };
+      } catch (error) {
+        lastError = error;
+        breaker.recordFailure();
+        const retryable = isRetryableError(error);
+        const retry = retryable && attempt < policy.maxAttempts && breaker.canAttempt();
+        const record: AttemptRecord = {
+          provider,
+          attempt,
+          ok: false,
+          error: String(error),
+          retryable,
+          retryInMs: retry ? backoffDelay(policy, attempt) : undefined,
+          latencyMs: Date.now() - start,
+        };
+        attempts.push(record);
+        await onAttempt?.(record);
+        if (!retry) break;
+        await new Promise((resolve) => setTimeout(resolve, record.retryInMs));
+      }
+    }
+  }
+
+  throw new FallbackExhaustedError(attempts, lastError);
+}
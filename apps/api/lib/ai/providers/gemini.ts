@@ -1,6 +1,12 @@
 import { GoogleGenAI } from "@google/genai";
 import type { VisionInput } from "../../agents/core/types";
 import { getAIGatewayUrl } from "../utils";
+import {
+  parseGeminiUsage,
+  type GeminiUsageResponse,
+  type UsageListener,
+} from "../usage";
+import type { ToolDeclaration, ToolMessage, ToolStep } from "../tool-calling";
 
 // Extended Env to include Gemini secrets and optional model config
 type GeminiEnv = Env;
@@ -49,12 +55,14 @@ export function getGeminiModel(env: GeminiEnv): string {
 /**
  * Standard query to Gemini
  * Mirrors: queryWorkerAI
+ * `onUsage` receives the token usage reported in `usageMetadata`.
  */
 export async function queryGemini(
   env: GeminiEnv,
   prompt: string,
   systemPrompt?: string,
   modelName?: string,
+  onUsage?: UsageListener,
 ): Promise<string> {
   const client = createGeminiClient(env);
   const model = modelName || getGeminiModel(env);
@@ -73,6 +81,8 @@ export async function queryGemini(
       ],
     });
 
+    const usage = parseGeminiUsage(response, model);
+    if (usage) onUsage?.(usage);
     return response.text || "";
   } catch (error) {
     console.error("Gemini Query Error:", error);
@@ -92,6 +102,7 @@ export async function queryGeminiStructured(
   schema: object,
   systemPrompt?: string,
   modelName?: string,
+  onUsage?: UsageListener,
 ): Promise<any> {
   const client = createGeminiClient(env);
   const model = modelName || getGeminiModel(env);
@@ -112,6 +123,9 @@ export async function queryGeminiStructured(
       ],
     });
 
+    const usage = parseGeminiUsage(response, model);
+    if (usage) onUsage?.(usage);
+
     const text = response.text;
     if (!text) throw new Error("Empty response from Gemini");
 
@@ -122,6 +136,78 @@ export async function queryGeminiStructured(
   }
 }
 
+/**
+ * One step of a function-calling conversation with Gemini.
+ * Mirrors: generateWithTools (worker-ai.ts)
+ * * Returns the text and the function calls of the model's turn; the caller runs
+ * the calls and continues with their results appended to `messages`.
+ */
+export async function queryGeminiWithTools(
+  env: GeminiEnv,
+  messages: ToolMessage[],
+  tools: ToolDeclaration[],
+  systemPrompt?: string,
+  modelName?: string,
+  onUsage?: UsageListener,
+): Promise<ToolStep> {
+  const client = createGeminiClient(env);
+  const model = modelName || getGeminiModel(env);
+
+  // Gemini has no tool role: results go back as functionResponse parts of a user turn.
+  const contents = messages.map((message) => {
+    if (message.role === "tool") {
+      return {
+        role: "user",
+        parts: [{ functionResponse: { name: message.name, response: { result: message.content } } }],
+      };
+    }
+    if (message.role === "assistant") {
+      return {
+        role: "model",
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls ?? []).map((call) => ({ functionCall: { name: call.name, args: call.args } })),
+        ],
+      };
+    }
+    return { role: "user", parts: [{ text: message.content }] };
+  });
+
+  try {
+    const response = await client.models.generateContent({
+      model: model,
+      config: {
+        systemInstruction: systemPrompt,
+        tools: tools.length > 0
+          ? [{
+              functionDeclarations: tools.map((tool) => ({
+                name: tool.name,
+                description: tool.description,
+                parametersJsonSchema: tool.parameters,
+              })),
+            }]
+          : undefined,
+      },
+      contents,
+    });
+
+    const usage = parseGeminiUsage(response, model);
+    if (usage) onUsage?.(usage);
+
+    return {
+      text: response.text || "",
+      toolCalls: (response.functionCalls ?? []).map((call) => ({
+        id: call.id || crypto.randomUUID(),
+        name: call.name!,
+        args: call.args ?? {},
+      })),
+    };
+  } catch (error) {
+    console.error("Gemini Tool Query Error:", error);
+    throw error;
+  }
+}
+
 /**
  * Generates text from an image using Gemini.
  * NOTE: Gemini currently requires Base64 image input.
@@ -131,6 +217,7 @@ export async function queryGeminiVision(
   image: VisionInput,
   prompt: string,
   modelName?: string,
+  onUsage?: UsageListener,
 ): Promise<string> {
   const client = createGeminiClient(env);
   const model = modelName || getGeminiModel(env); // Defaults to Pro (good for vision)
@@ -160,6 +247,8 @@ export async function queryGeminiVision(
       ],
     });
 
+    const usage = parseGeminiUsage(response, model);
+    if (usage) onUsage?.(usage);
     return response.text || "";
   } catch (error) {
     console.error("Gemini Vision Error:", error);
@@ -261,14 +350,18 @@ Please:
 /**
  * Stream Gemini response
  * Mirrors: streamWorkerAI
+ * * The stream carries the answer as UTF-8 text, chunk by chunk. `onUsage`
+ * receives the usage reported with the last chunk.
  */
 export async function streamGemini(
   env: GeminiEnv,
   prompt: string,
   systemPrompt?: string,
-): Promise<ReadableStream> {
+  modelName?: string,
+  onUsage?: UsageListener,
+): Promise<ReadableStream<Uint8Array>> {
   const client = createGeminiClient(env);
-  const model = getGeminiModel(env);
+  const model = modelName || getGeminiModel(env);
 
   try {
     const result = await client.models.generateContentStream({
@@ -287,13 +380,18 @@ export async function streamGemini(
     // Convert Gemini Async Generator to standard ReadableStream for Cloudflare Workers
     return new ReadableStream({
       async start(controller) {
+        const encoder = new TextEncoder();
+        let last: GeminiUsageResponse | undefined;
         try {
           for await (const chunk of result) {
+            last = chunk;
             const text = chunk.text;
             if (text) {
-              controller.enqueue(new TextEncoder().encode(text));
+              controller.enqueue(encoder.encode(text));
             }
           }
+          const usage = parseGeminiUsage(last, model);
+          if (usage) onUsage?.(usage);
           controller.close();
         } catch (err) {
           controller.error(err);
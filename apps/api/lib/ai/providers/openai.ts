@@ -2,6 +2,8 @@ import OpenAI from "openai";
 import { env } from "process";
 import type { VisionInput } from "../../agents/core/types";
 import { getAIGatewayUrl } from "../utils/ai-gateway";
+import { parseOpenAIUsage, type UsageListener } from "../usage";
+import { parseToolArgs, type ToolDeclaration, type ToolMessage, type ToolStep } from "../tool-calling";
 
 export const DEFAULT_OPENAI_MODEL = env.OPENAI_MODEL_NAME || "gpt-4o";
 export const DEFAULT_OPENAI_EMBEDDINGS_MODEL = "text-embedding-ada-002";
@@ -31,12 +33,14 @@ export function getOpenAIModel(env: Env): string {
 
 /**
  * Standard query to OpenAI
+ * `onUsage` receives the token usage reported in `completion.usage`.
  */
 export async function queryOpenAI(
   env: Env,
   prompt: string,
   systemPrompt?: string,
   modelName?: string,
+  onUsage?: UsageListener,
 ): Promise<string> {
   const client = createOpenAIClient(env);
   const model = modelName || getOpenAIModel(env);
@@ -53,6 +57,8 @@ export async function queryOpenAI(
       messages: messages,
     });
 
+    const usage = parseOpenAIUsage(completion, model);
+    if (usage) onUsage?.(usage);
     return completion.choices[0].message.content || "";
   } catch (error) {
     console.error("OpenAI Query Error:", error);
@@ -60,6 +66,73 @@ export async function queryOpenAI(
   }
 }
 
+/** A function call in OpenAI's chat format. */
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** A chat message as sent to OpenAI. */
+type OpenAIChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+/**
+ * Streaming query to OpenAI
+ * Mirrors: streamGemini
+ * * The stream carries the answer as UTF-8 text, chunk by chunk. `onUsage`
+ * receives the usage OpenAI appends as a final chunk.
+ */
+export async function streamOpenAI(
+  env: Env,
+  prompt: string,
+  systemPrompt?: string,
+  modelName?: string,
+  onUsage?: UsageListener,
+): Promise<ReadableStream<Uint8Array>> {
+  const client = createOpenAIClient(env);
+  const model = modelName || getOpenAIModel(env);
+
+  try {
+    const messages: OpenAIChatMessage[] = [];
+    if (systemPrompt) {
+      messages.push({ role: "system", content: systemPrompt });
+    }
+    messages.push({ role: "user", content: prompt });
+
+    const completion = await client.chat.completions.create({
+      model: model,
+      messages: messages,
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+
+    return new ReadableStream({
+      async start(controller) {
+        const encoder = new TextEncoder();
+        try {
+          for await (const chunk of completion) {
+            const text = chunk.choices[0]?.delta?.content;
+            if (text) {
+              controller.enqueue(encoder.encode(text));
+            }
+            const usage = parseOpenAIUsage(chunk, model);
+            if (usage) onUsage?.(usage);
+          }
+          controller.close();
+        } catch (err) {
+          controller.error(err);
+        }
+      },
+    });
+  } catch (error) {
+    console.error("OpenAI Stream Error:", error);
+    throw error;
+  }
+}
+
 /**
  * Generates text from an image using OpenAI.
  * NOTE: OpenAI currently requires Base64 or URL image input.
@@ -69,6 +142,7 @@ export async function queryOpenAIVision(
   image: VisionInput,
   prompt: string,
   modelName: string = "gpt-4o",
+  onUsage?: UsageListener,
 ): Promise<string> {
   const client = createOpenAIClient(env);
 
@@ -102,6 +176,8 @@ export async function queryOpenAIVision(
       ],
     });
 
+    const usage = parseOpenAIUsage(completion, modelName);
+    if (usage) onUsage?.(usage);
     return completion.choices[0].message.content || "";
   } catch (error) {
     console.error("OpenAI Vision Error:", error);
@@ -118,6 +194,7 @@ export async function queryOpenAIStructured(
   schema: any, // JSON Schema
   systemPrompt?: string,
   modelName?: string,
+  onUsage?: UsageListener,
 ): Promise<any> {
   const client = createOpenAIClient(env);
   const model = modelName || getOpenAIModel(env);
@@ -137,6 +214,9 @@ export async function queryOpenAIStructured(
       // For now, relying on 'json_object' and the prompt to adhere to schema.
     });
 
+    const usage = parseOpenAIUsage(completion, model);
+    if (usage) onUsage?.(usage);
+
     const content = completion.choices[0].message.content || "{}";
 
     return JSON.parse(content);
@@ -146,6 +226,75 @@ export async function queryOpenAIStructured(
   }
 }
 
+/**
+ * One step of a function-calling conversation with OpenAI.
+ * Returns the text and the tool calls of the model's turn.
+ */
+export async function queryOpenAIWithTools(
+  env: Env,
+  messages: ToolMessage[],
+  tools: ToolDeclaration[],
+  systemPrompt?: string,
+  modelName?: string,
+  onUsage?: UsageListener,
+): Promise<ToolStep> {
+  const client = createOpenAIClient(env);
+  const model = modelName || getOpenAIModel(env);
+
+  try {
+    const chat: OpenAIChatMessage[] = [];
+    if (systemPrompt) {
+      chat.push({ role: "system", content: systemPrompt });
+    }
+    for (const message of messages) {
+      if (message.role === "tool") {
+        chat.push({ role: "tool", tool_call_id: message.toolCallId, content: message.content });
+      } else if (message.role === "assistant" && message.toolCalls?.length) {
+        chat.push({
+          role: "assistant",
+          content: message.content || null,
+          tool_calls: message.toolCalls.map((call) => ({
+            id: call.id,
+            type: "function",
+            function: { name: call.name, arguments: JSON.stringify(call.args) },
+          })),
+        });
+      } else {
+        chat.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const completion = await client.chat.completions.create({
+      model: model,
+      messages: chat,
+      tools: tools.length > 0
+        ? tools.map((tool) => ({
+            type: "function" as const,
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+    });
+
+    const usage = parseOpenAIUsage(completion, model);
+    if (usage) onUsage?.(usage);
+
+    const reply = completion.choices[0].message;
+    return {
+      text: reply.content || "",
+      toolCalls: (reply.tool_calls ?? [])
+        .filter((call: { type: string }): call is OpenAIToolCall => call.type === "function")
+        .map((call: OpenAIToolCall) => ({
+          id: call.id,
+          name: call.function.name,
+          args: parseToolArgs(call.function.arguments),
+        })),
+    };
+  } catch (error) {
+    console.error("OpenAI Tool Query Error:", error);
+    throw error;
+  }
+}
+
 /**
  * Generates an embedding for the given text using OpenAI.
  * Default model: text-embedding-ada-002
@@ -5,14 +5,18 @@
  * and response parsing. It is designed to be the single source of truth for all AI operations.
  * * Capabilities:
  * 1. `generateText`: Unstructured reasoning using high-intelligence models (GPT-OSS-120B). Supports HTML sanitization.
+ *    `streamText` is its streaming variant.
  * 2. `generateStructured`: Structured data extraction using schema-enforcing models (Llama 3.3).
  * 3. `generateEmbedding`: Vector embedding generation using the environment-configured model.
+ * 4. `generateWithTools`: One step of a native function-calling conversation (Llama 3.3).
  * * @requires Env - The Cloudflare Worker environment bindings.
  * @requires sanitizeAndFormatAiResponse - Utility for cleaning AI output for frontend display.
  */
 
 import type { VisionInput } from "../../agents/core/types";
 import { cleanAiJsonOutput, sanitizeAndFormatAiResponse } from "../utils";
+import { parseWorkerAIUsage, type UsageListener, type WorkerAIUsageResponse } from "../usage";
+import { parseToolArgs, type ToolDeclaration, type ToolMessage, type ToolStep } from "../tool-calling";
 
 // Type alias for the AI binding to ensure compatibility across various Worker types
 type AiBinding = any;
@@ -37,6 +41,12 @@ const STRUCTURING_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
  */
 const VISION_MODEL = "@cf/meta/llama-3.2-11b-vision-instruct";
 
+/** * @constant TOOL_CALLING_MODEL
+ * @description Llama 3.3 70B also supports native function calling through the
+ * 'tools' parameter of the messages API.
+ */
+const TOOL_CALLING_MODEL = "@cf/meta/llama-3.3-70b-instruct-fp8-fast";
+
 // --- Types ---
 
 export interface ReasoningOptions {
@@ -57,6 +67,9 @@ export interface ReasoningOptions {
    * @default false
    */
   sanitize?: boolean;
+
+  /** Receives the token usage the model reports. */
+  onUsage?: UsageListener;
 }
 
 export interface StructuredOptions {
@@ -64,6 +77,36 @@ export interface StructuredOptions {
   reasoningEffort?: "low" | "medium" | "high";
   /** Optional system prompt to guide the final JSON formatting step. */
   structuringInstruction?: string;
+  /** Receives the token usage of each of the two model calls. */
+  onUsage?: UsageListener;
+}
+
+/** A function call in the OpenAI-compatible chat format. */
+interface ChatToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+/** A chat message of a function-calling conversation, as sent to the model. */
+type ChatMessage =
+  | { role: "system" | "user"; content: string }
+  | { role: "assistant"; content: string; tool_calls?: ChatToolCall[] }
+  | { role: "tool"; tool_call_id: string; name: string; content: string };
+
+/** A requested tool call, in the OpenAI-compatible or the traditional shape. */
+interface ToolCallPayload {
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  function?: { name?: string; arguments?: unknown };
+}
+
+/** The fields of a function-calling response that generateWithTools reads. */
+interface ToolCallingResponse extends WorkerAIUsageResponse {
+  response?: string;
+  tool_calls?: ToolCallPayload[];
+  choices?: { message?: { content?: string | null; tool_calls?: ToolCallPayload[] } }[];
 }
 
 // --- Core AI Functions ---
@@ -100,6 +143,8 @@ export async function generateText(
 
   try {
     const response = await ai.run(REASONING_MODEL, payload);
+    const usage = parseWorkerAIUsage(response, REASONING_MODEL);
+    if (usage) options?.onUsage?.(usage);
     let textResult = "";
 
     // Handle Responses API output format
@@ -127,6 +172,79 @@ export async function generateText(
   }
 }
 
+/**
+ * Streaming variant of `generateText` (GPT-OSS-120B).
+ * * Workers AI streams server-sent events; this unwraps them into the answer as
+ * UTF-8 text, chunk by chunk. Deltas are accepted in the Responses API form
+ * (`response.output_text.delta` events), the Chat Completions form
+ * (`choices[0].delta.content`) and the legacy `{ response }` form.
+ * * @param ai - The Cloudflare AI binding (env.AI)
+ * @param input - The user prompt or input text to analyze
+ * @param systemInstruction - Optional system context or persona instructions
+ * @param options - Reasoning effort and usage listener; `sanitize` is not supported when streaming
+ */
+export async function streamText(
+  ai: AiBinding,
+  input: string,
+  systemInstruction?: string,
+  options?: ReasoningOptions,
+): Promise<ReadableStream<Uint8Array>> {
+  const payload = {
+    input: systemInstruction
+      ? `Instructions: ${systemInstruction}\n\nInput: ${input}`
+      : input,
+    reasoning: {
+      effort: options?.effort || "medium",
+      summary: options?.summary || "concise",
+    },
+    stream: true,
+  };
+
+  let events: ReadableStream<Uint8Array>;
+  try {
+    events = await ai.run(REASONING_MODEL, payload);
+  } catch (error) {
+    console.error("Worker AI Stream Error:", error);
+    throw new Error(
+      `Failed to stream text: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let buffer = "";
+  const emit = (line: string, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (!line.startsWith("data:")) return;
+    const data = line.slice(5).trim();
+    if (!data || data === "[DONE]") return;
+    try {
+      const event = JSON.parse(data);
+      const usage = parseWorkerAIUsage(event.response?.usage ? event.response : event, REASONING_MODEL);
+      if (usage) options?.onUsage?.(usage);
+      const text =
+        event.type === "response.output_text.delta"
+          ? event.delta
+          : event.choices?.[0]?.delta?.content ?? (typeof event.response === "string" ? event.response : undefined);
+      if (text) controller.enqueue(encoder.encode(text));
+    } catch {
+      // Ignore keep-alives and events that are not JSON.
+    }
+  };
+
+  return events.pipeThrough(new TextDecoderStream()).pipeThrough(
+    new TransformStream<string, Uint8Array>({
+      transform(chunk, controller) {
+        buffer += chunk;
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+        for (const line of lines) emit(line, controller);
+      },
+      flush(controller) {
+        emit(buffer, controller);
+      },
+    }),
+  );
+}
+
 /**
  * Generates a strictly typed JSON object using a 2-step Chain-of-Thought process.
  * * Process:
@@ -157,7 +275,7 @@ export async function generateStructured<T = any>(
       ai,
       prompt,
       "Analyze the following input comprehensively. Provide a detailed analysis that covers all aspects required.",
-      { effort: options?.reasoningEffort || "high", sanitize: false },
+      { effort: options?.reasoningEffort || "high", sanitize: false, onUsage: options?.onUsage },
     );
 
     // Validate reasoning output before proceeding
@@ -193,6 +311,8 @@ export async function generateStructured<T = any>(
         },
       },
     });
+    const usage = parseWorkerAIUsage(response, STRUCTURING_MODEL);
+    if (usage) options?.onUsage?.(usage);
 
     // Parse Llama 3.3 output
     if (
@@ -214,6 +334,74 @@ export async function generateStructured<T = any>(
   }
 }
 
+/**
+ * Runs one step of a function-calling conversation (Llama 3.3).
+ * * The model either answers in text or asks for tool calls; the caller runs the
+ * calls and continues with their results appended to `messages`. Both the
+ * traditional (`tool_calls` with object arguments) and the OpenAI-compatible
+ * (`choices[0].message.tool_calls`) response shapes are accepted.
+ * * @param ai - The Cloudflare AI binding (env.AI)
+ * @param messages - The conversation so far
+ * @param tools - The tools the model may call; empty forces a text answer
+ * @param options - Optional system prompt and usage listener
+ */
+export async function generateWithTools(
+  ai: AiBinding,
+  messages: ToolMessage[],
+  tools: ToolDeclaration[],
+  options?: { systemPrompt?: string; onUsage?: UsageListener },
+): Promise<ToolStep> {
+  const chat: ChatMessage[] = [];
+  if (options?.systemPrompt) {
+    chat.push({ role: "system", content: options.systemPrompt });
+  }
+  for (const message of messages) {
+    if (message.role === "tool") {
+      chat.push({ role: "tool", tool_call_id: message.toolCallId, name: message.name, content: message.content });
+    } else if (message.role === "assistant" && message.toolCalls?.length) {
+      chat.push({
+        role: "assistant",
+        content: message.content,
+        tool_calls: message.toolCalls.map((call) => ({
+          id: call.id,
+          type: "function",
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      });
+    } else {
+      chat.push({ role: message.role, content: message.content });
+    }
+  }
+
+  try {
+    const response: ToolCallingResponse = await ai.run(TOOL_CALLING_MODEL, {
+      messages: chat,
+      tools: tools.length > 0
+        ? tools.map((tool) => ({
+            type: "function",
+            function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+          }))
+        : undefined,
+    });
+    const usage = parseWorkerAIUsage(response, TOOL_CALLING_MODEL);
+    if (usage) options?.onUsage?.(usage);
+
+    const reply = response.choices?.[0]?.message;
+    const calls = reply?.tool_calls ?? response.tool_calls ?? [];
+    return {
+      text: reply?.content ?? response.response ?? "",
+      toolCalls: calls.map((call) => ({
+        id: call.id ?? crypto.randomUUID(),
+        name: call.function?.name ?? call.name ?? "",
+        args: parseToolArgs(call.function?.arguments ?? call.arguments),
+      })),
+    };
+  } catch (error) {
+    console.error("Worker AI Tool Calling Error:", error);
+    throw error;
+  }
+}
+
 /**
  * Generates text from an image using Cloudflare Workers AI (Llama 3.2 Vision).
  * NOTE: Llama 3.2 on Workers AI currently expects an array of integers for the image.
@@ -222,6 +410,7 @@ export async function generateVision(
   env: Env,
   image: VisionInput,
   prompt: string,
+  onUsage?: UsageListener,
 ): Promise<string> {
   let imageInput: number[] = [];
 
@@ -242,6 +431,8 @@ export async function generateVision(
       prompt: prompt,
       image: imageInput,
     });
+    const usage = parseWorkerAIUsage(response, VISION_MODEL);
+    if (usage) onUsage?.(usage);
 
     // Parse standard Llama response
     return (response as any).response || JSON.stringify(response);
@@ -419,6 +610,7 @@ export async function analyzeCommentForCloudflare(
 // These ensure existing code doesn't break while migrating to the new signatures.
 
 export const queryWorkerAI = generateText;
+export const streamWorkerAI = streamText;
 export const queryWorkerAIStructured = async (
   ai: AiBinding,
   prompt: string,
@@ -0,0 +1,66 @@
+/**
+ * @module ToolCalling
+ * @description Provider-neutral types for native function calling.
+ * * A tool-calling conversation is kept as `ToolMessage`s, which each provider
+ * (`queryGeminiWithTools`, `queryOpenAIWithTools`, Workers AI `generateWithTools`)
+ * maps onto its own wire format. One provider call is one `ToolStep`: the text
+ * the model wrote and the tool calls it wants made. Because the history is
+ * neutral, a conversation can continue on another provider after a fallback.
+ */
+
+import zodToJsonSchema from "zod-to-json-schema";
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  /** JSON Schema of the arguments object. */
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  /** Provider-assigned id, or a generated one for providers that have none. */
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export type ToolMessage =
+  | { role: "user"; content: string }
+  | { role: "assistant"; content: string; toolCalls?: ToolCall[] }
+  | { role: "tool"; toolCallId: string; name: string; content: string };
+
+export interface ToolStep {
+  text: string;
+  toolCalls: ToolCall[];
+}
+
+/**
+ * A tool's parameters as JSON Schema. Agent tools declare them as a Zod schema
+ * (GitHub tools), an AI SDK `jsonSchema()` wrapper (core tools) or plain JSON Schema.
+ */
+export function toParametersSchema(parameters: unknown): Record<string, unknown> {
+  if (!parameters || typeof parameters !== "object") return { type: "object", properties: {} };
+  if ("jsonSchema" in parameters && parameters.jsonSchema) {
+    return parameters.jsonSchema as Record<string, unknown>;
+  }
+  if ("_def" in parameters || "_zod" in parameters) {
+    const schema = zodToJsonSchema(parameters as Parameters<typeof zodToJsonSchema>[0]) as Record<string, unknown>;
+    delete schema.$schema;
+    return schema;
+  }
+  return parameters as Record<string, unknown>;
+}
+
+/**
+ * Arguments as sent by the model: an object, or a JSON string (OpenAI, some Workers AI models).
+ */
+export function parseToolArgs(args: unknown): Record<string, unknown> {
+  if (typeof args === "string") {
+    try {
+      return args ? JSON.parse(args) : {};
+    } catch {
+      return {};
+    }
+  }
+  return (args as Record<string, unknown>) ?? {};
+}
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_PRICE_TABLE,
+  estimateCost,
+  getPriceTable,
+  parseGeminiUsage,
+  parseOpenAIUsage,
+  parseWorkerAIUsage,
+  UsageMeter,
+  type PriceTable,
+} from "./usage";
+
+const PRICES: PriceTable = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+describe("estimateCost", () => {
+  it("prices input and output tokens per million", () => {
+    const cost = estimateCost(PRICES, {
+      provider: "openai",
+      model: "gpt-4o",
+      input: 1_000_000,
+      output: 500_000,
+    });
+
+    expect(cost).toBeCloseTo(2.5 + 5);
+  });
+
+  it("uses the longest matching model prefix", () => {
+    const cost = estimateCost(PRICES, {
+      provider: "openai",
+      model: "gpt-4o-mini-2024-07-18",
+      input: 1_000_000,
+      output: 1_000_000,
+    });
+
+    expect(cost).toBeCloseTo(0.15 + 0.6);
+  });
+
+  it("is null for unpriced models", () => {
+    expect(
+      estimateCost(PRICES, {
+        provider: "gemini",
+        model: "gemini-1.0-pro",
+        input: 10,
+        output: 10,
+      }),
+    ).toBeNull();
+  });
+});
+
+describe("getPriceTable", () => {
+  it("is the default table without an override", () => {
+    expect(getPriceTable({} as Env)).toBe(DEFAULT_PRICE_TABLE);
+  });
+
+  it("merges a JSON override into the defaults", () => {
+    const env = {
+      AI_PRICE_TABLE: JSON.stringify({
+        "gpt-4o": { input: 1, output: 2 },
+        "my-model": { input: 3, output: 4 },
+      }),
+    } as unknown as Env;
+
+    const prices = getPriceTable(env);
+
+    expect(prices["gpt-4o"]).toEqual({ input: 1, output: 2 });
+    expect(prices["my-model"]).toEqual({ input: 3, output: 4 });
+    expect(prices["gemini-2.5-pro"]).toEqual(
+      DEFAULT_PRICE_TABLE["gemini-2.5-pro"],
+    );
+  });
+
+  it("ignores an override that is not valid JSON", () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const env = { AI_PRICE_TABLE: "{ not json" } as unknown as Env;
+
+    expect(getPriceTable(env)).toBe(DEFAULT_PRICE_TABLE);
+  });
+});
+
+describe("provider usage parsers", () => {
+  it("counts Gemini thinking tokens as output", () => {
+    const usage = parseGeminiUsage(
+      {
+        usageMetadata: {
+          promptTokenCount: 100,
+          candidatesTokenCount: 20,
+          thoughtsTokenCount: 30,
+        },
+      },
+      "gemini-2.5-flash",
+    );
+
+    expect(usage).toEqual({
+      provider: "gemini",
+      model: "gemini-2.5-flash",
+      input: 100,
+      output: 50,
+    });
+  });
+
+  it("prefers the model OpenAI reports", () => {
+    const usage = parseOpenAIUsage(
+      {
+        model: "gpt-4o-2024-08-06",
+        usage: { prompt_tokens: 7, completion_tokens: 3 },
+      },
+      "gpt-4o",
+    );
+
+    expect(usage).toEqual({
+      provider: "openai",
+      model: "gpt-4o-2024-08-06",
+      input: 7,
+      output: 3,
+    });
+  });
+
+  it("reads both Workers AI usage shapes", () => {
+    const model = "@cf/openai/gpt-oss-20b";
+
+    expect(
+      parseWorkerAIUsage(
+        { usage: { prompt_tokens: 5, completion_tokens: 6 } },
+        model,
+      ),
+    ).toMatchObject({ input: 5, output: 6 });
+    expect(
+      parseWorkerAIUsage(
+        { usage: { input_tokens: 8, output_tokens: 9 } },
+        model,
+      ),
+    ).toMatchObject({ input: 8, output: 9 });
+  });
+
+  it("is null when no usage is reported", () => {
+    expect(parseGeminiUsage({}, "gemini-2.5-flash")).toBeNull();
+    expect(parseOpenAIUsage({ usage: null }, "gpt-4o")).toBeNull();
+    expect(parseWorkerAIUsage(undefined, "@cf/meta/llama")).toBeNull();
+  });
+});
+
+describe("UsageMeter", () => {
+  it("sums tokens and cost across the calls of one generation", () => {
+    const meter = new UsageMeter(PRICES);
+
+    meter.record({
+      provider: "openai",
+      model: "gpt-4o",
+      input: 1_000_000,
+      output: 0,
+    });
+    meter.record({
+      provider: "openai",
+      model: "gpt-4o-mini",
+      input: 0,
+      output: 1_000_000,
+    });
+
+    expect(meter.tokens).toEqual({ input: 1_000_000, output: 1_000_000 });
+    expect(meter.costUsd).toBeCloseTo(2.5 + 0.6);
+    expect(meter.model).toBe("gpt-4o+gpt-4o-mini");
+  });
+
+  it("leaves the cost null when no model is priced", () => {
+    const meter = new UsageMeter(PRICES);
+
+    meter.record({ provider: "gemini", model: "unknown", input: 1, output: 1 });
+
+    expect(meter.tokens).toEqual({ input: 1, output: 1 });
+    expect(meter.costUsd).toBeNull();
+  });
+
+  it("reports nothing before any usage", () => {
+    const meter = new UsageMeter(PRICES);
+
+    expect(meter.tokens).toBeUndefined();
+    expect(meter.model).toBeUndefined();
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * @module Usage
+ * @description Token usage reported by the AI providers and its estimated cost.
+ * * Each provider reports usage in its own shape (Gemini `usageMetadata`, OpenAI
+ * `usage`, Workers AI `usage` in either Chat Completions or Responses form). The
+ * parsers here normalize them to `TokenUsage`, which provider functions hand to
+ * an optional `onUsage` callback.
+ * * Prices are USD per million tokens, matched by longest model-name prefix. The
+ * defaults can be overridden or extended with the `AI_PRICE_TABLE` variable, a
+ * JSON object of the same shape, e.g. `{"gpt-4o": {"input": 2.5, "output": 10}}`.
+ */
+
+export interface TokenUsage {
+  provider: string;
+  model: string;
+  input: number;
+  output: number;
+}
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+export interface ModelPrice {
+  /** USD per million input tokens. */
+  input: number;
+  /** USD per million output tokens. */
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+/** Gemini `usageMetadata`, the fields that are billed. */
+export interface GeminiUsageResponse {
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+  } | null;
+}
+
+/** OpenAI Chat Completions `usage`, on a completion or the last stream chunk. */
+export interface OpenAIUsageResponse {
+  model?: string;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+  } | null;
+}
+
+/** Workers AI `usage`: Chat Completions names, or Responses API names. */
+export interface WorkerAIUsageResponse {
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    input_tokens?: number;
+    output_tokens?: number;
+  } | null;
+}
+
+/** List prices at the time of writing; estimates only. */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "@cf/openai/gpt-oss-120b": { input: 0.35, output: 0.75 },
+  "@cf/openai/gpt-oss-20b": { input: 0.2, output: 0.3 },
+  "@cf/meta/llama-3.3-70b-instruct-fp8-fast": { input: 0.29, output: 2.25 },
+  "@cf/meta/llama-3.2-11b-vision-instruct": { input: 0.049, output: 0.68 },
+};
+
+/**
+ * The default price table merged with the `AI_PRICE_TABLE` override, if set and valid.
+ */
+export function getPriceTable(env: Env): PriceTable {
+  const override = (env as Env & { AI_PRICE_TABLE?: string | PriceTable })
+    .AI_PRICE_TABLE;
+  if (!override) return DEFAULT_PRICE_TABLE;
+  try {
+    const parsed =
+      typeof override === "string" ? JSON.parse(override) : override;
+    return { ...DEFAULT_PRICE_TABLE, ...parsed };
+  } catch (error) {
+    console.error("Ignoring invalid AI_PRICE_TABLE:", error);
+    return DEFAULT_PRICE_TABLE;
+  }
+}
+
+/**
+ * Estimated cost of `usage` in USD, or null if the model has no price.
+ */
+export function estimateCost(
+  prices: PriceTable,
+  usage: TokenUsage,
+): number | null {
+  const key = Object.keys(prices)
+    .filter((prefix) => usage.model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return null;
+  const price = prices[key];
+  return (usage.input * price.input + usage.output * price.output) / 1_000_000;
+}
+
+// --- Provider parsers ---
+
+/** Gemini `response.usageMetadata`; thinking tokens are billed as output. */
+export function parseGeminiUsage(
+  response: GeminiUsageResponse | null | undefined,
+  model: string,
+): TokenUsage | null {
+  const meta = response?.usageMetadata;
+  if (!meta) return null;
+  return {
+    provider: "gemini",
+    model,
+    input: meta.promptTokenCount ?? 0,
+    output: (meta.candidatesTokenCount ?? 0) + (meta.thoughtsTokenCount ?? 0),
+  };
+}
+
+/** OpenAI Chat Completions `completion.usage`. */
+export function parseOpenAIUsage(
+  completion: OpenAIUsageResponse | null | undefined,
+  model: string,
+): TokenUsage | null {
+  const usage = completion?.usage;
+  if (!usage) return null;
+  return {
+    provider: "openai",
+    model: completion.model ?? model,
+    input: usage.prompt_tokens ?? 0,
+    output: usage.completion_tokens ?? 0,
+  };
+}
+
+/** Workers AI `response.usage`, in Chat Completions or Responses API form. */
+export function parseWorkerAIUsage(
+  response: WorkerAIUsageResponse | null | undefined,
+  model: string,
+): TokenUsage | null {
+  const usage = response?.usage;
+  if (!usage) return null;
+  return {
+    provider: "worker-ai",
+    model,
+    input: usage.prompt_tokens ?? usage.input_tokens ?? 0,
+    output: usage.completion_tokens ?? usage.output_tokens ?? 0,
+  };
+}
+
+/**
+ * Sums the usage of one logical generation, which may span several model calls
+ * (e.g. the Workers AI reasoning + structuring chain).
+ */
+export class UsageMeter {
+  input = 0;
+  output = 0;
+  costUsd: number | null = null;
+  models = new Set<string>();
+
+  constructor(private prices: PriceTable) {}
+
+  record: UsageListener = (usage) => {
+    this.input += usage.input;
+    this.output += usage.output;
+    this.models.add(usage.model);
+    const cost = estimateCost(this.prices, usage);
+    if (cost !== null) {
+      this.costUsd = (this.costUsd ?? 0) + cost;
+    }
+  };
+
+  /** The summed tokens, or undefined if no call reported usage. */
+  get tokens(): { input: number; output: number } | undefined {
+    return this.models.size > 0
+      ? { input: this.input, output: this.output }
+      : undefined;
+  }
+
+  /** The model that answered; joined with "+" when several did. */
+  get model(): string | undefined {
+    return this.models.size > 0 ? [...this.models].join("+") : undefined;
+  }
+}
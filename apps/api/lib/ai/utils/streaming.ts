@@ -11,7 +11,12 @@ export interface StreamEvent {
     | "plan"
     | "pillar_start"
     | "pillar_progress"
-    | "pillar_complete";
+    | "pillar_complete"
+    | "log"
+    | "status"
+    | "delta";
+  // Sent as the SSE `id:` field so a reconnecting client can resume via Last-Event-ID.
+  id?: string;
   message?: string;
   data?: any;
   timestamp?: string;
@@ -36,7 +41,7 @@ export function createSSEStream() {
     send(event: StreamEvent) {
       const timestamp = new Date().toISOString();
       const data = JSON.stringify({ ...event, timestamp });
-      const message = `data: ${data}\n\n`;
+      const message = `${event.id ? `id: ${event.id}\n` : ""}data: ${data}\n\n`;
       controller.enqueue(new TextEncoder().encode(message));
     },
     sendProgress(message: string) {
@@ -12,6 +12,11 @@ import { organizationRouter } from "../routers/organization.js";
 import { userRouter } from "../routers/user.js";
 import { agentRouter } from "../routers/agent.js";
 import { configRouter } from "../routers/config.js";
+import { favoritesRouter } from "../routers/favorites.js";
+import { collectionsRouter } from "../routers/collections.js";
+import { tagsRouter } from "../routers/tags.js";
+import { knowledgeRouter } from "../routers/knowledge.js";
+import { reposRouter } from "../routers/repos.js";
 
 // tRPC API router
 const appRouter = router({
@@ -21,6 +26,11 @@ const appRouter = router({
 
 app.route("/api/agent", agentRouter);
 app.route("/api/config", configRouter);
+app.route("/api/favorites", favoritesRouter);
+app.route("/api/tags", tagsRouter);
+app.route("/api/collections", collectionsRouter);
+app.route("/api/knowledge", knowledgeRouter);
+app.route("/api/repos", reposRouter);
 
 // HTTP router
 const app = new Hono<AppContext>();
@@ -0,0 +1,223 @@
+/**
+ * @file Grounded follow-up chat about a search's results.
+ *
+ * A question is answered from sources retrieved for it rather than from the
+ * whole result set: the request's repo analyses that best match the question,
+ * plus excerpts of those repos' cached README and manifests (repo_file_cache).
+ * The sources are numbered, the model cites them inline as [1], [2], ... and
+ * the numbers it used are resolved to the repos and files they stand for.
+ *
+ * The conversation is stored in chat_messages; its recent turns are replayed
+ * with every question, so follow-ups like "and its license?" keep their context
+ * across reconnects.
+ */
+
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { chatMessages, repoAnalysis, repoFileCache } from "../../../db/schema";
+import type { AppContext } from "./context";
+
+type Database = AppContext["Variables"]["db"];
+type Analysis = typeof repoAnalysis.$inferSelect;
+type CachedFile = typeof repoFileCache.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+
+// Analyses given to the model per question; the best matches first.
+const MAX_CHAT_REPOS = 5;
+
+// File excerpts given to the model per question, and their size.
+const MAX_FILE_EXCERPTS = 6;
+const EXCERPT_CHARS = 1500;
+
+// Earlier messages replayed as conversation memory.
+const MAX_HISTORY_MESSAGES = 10;
+
+const STOPWORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "has", "have", "how",
+  "its", "one", "our", "out", "was", "what", "when", "which", "who", "why", "with", "this",
+  "that", "they", "them", "from", "does", "did", "use", "uses", "using", "there", "their",
+  "these", "those", "about", "into", "than", "then", "also", "most", "more", "repo", "repos",
+  "repository", "repositories",
+]);
+
+export interface ChatSource {
+  /** The number the model cites the source by. */
+  ref: number;
+  repoUrl: string;
+  /** The file the excerpt is from; null for the repo's analysis. */
+  path: string | null;
+  /** Where a reader can look the source up. */
+  url: string;
+  content: string;
+}
+
+export type ChatCitation = Omit<ChatSource, "content">;
+
+function terms(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9.+#-]+/)
+      .filter((term) => term.length >= 3 && !STOPWORDS.has(term)),
+  );
+}
+
+// How many of the question's terms occur in `text`; a term naming the repo itself counts triple.
+function score(questionTerms: Set<string>, text: string, repoUrl = ""): number {
+  const haystack = text.toLowerCase();
+  const repoName = repoUrl.toLowerCase();
+  let total = 0;
+  for (const term of questionTerms) {
+    if (repoName && repoName.includes(term)) total += 3;
+    else if (haystack.includes(term)) total += 1;
+  }
+  return total;
+}
+
+function analysisText(analysis: Analysis): string {
+  return JSON.stringify({
+    summary: analysis.aiSummary,
+    prosCons: analysis.aiProsCons,
+    techStack: analysis.techStack,
+    dependencies: analysis.dependencies,
+    tooling: analysis.tooling,
+  });
+}
+
+// Splits a file at blank lines into excerpts of at most EXCERPT_CHARS.
+function excerpts(content: string): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  for (const block of content.split(/\n\s*\n/)) {
+    if (current && current.length + block.length > EXCERPT_CHARS) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current}\n\n${block}` : block;
+    while (current.length > EXCERPT_CHARS) {
+      chunks.push(current.slice(0, EXCERPT_CHARS));
+      current = current.slice(EXCERPT_CHARS);
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+}
+
+function fileUrl(file: CachedFile): string {
+  return `${file.repoUrl}/blob/${file.headSha ?? "HEAD"}/${file.path}`;
+}
+
+/**
+ * The request's conversation so far, oldest first, limited to the most recent messages.
+ */
+export async function loadChatHistory(db: Database, requestId: string, limit = MAX_HISTORY_MESSAGES): Promise<ChatMessage[]> {
+  const recent = await db.query.chatMessages.findMany({
+    where: eq(chatMessages.requestId, requestId),
+    orderBy: [desc(chatMessages.createdAt)],
+    limit,
+  });
+  return recent.reverse();
+}
+
+/**
+ * Picks the sources for a question. The previous question is searched along with
+ * this one, so a follow-up that only says "it" still finds the repo meant.
+ * With no match at all (e.g. "which one is best?") the top-ranked repos are used.
+ */
+export async function retrieveChatSources(
+  db: Database,
+  requestId: string,
+  query: string,
+  history: ChatMessage[],
+): Promise<ChatSource[]> {
+  const previousQuestion = [...history].reverse().find((m) => m.role === "user")?.content ?? "";
+  const questionTerms = terms(`${query} ${previousQuestion}`);
+
+  const analyses = await db.query.repoAnalysis.findMany({
+    where: and(eq(repoAnalysis.requestId, requestId), eq(repoAnalysis.status, "complete")),
+  });
+  const repos = analyses
+    .map((analysis) => ({ analysis, score: score(questionTerms, analysisText(analysis), analysis.repoUrl) }))
+    .sort((a, b) => b.score - a.score || (b.analysis.aiRanking ?? 0) - (a.analysis.aiRanking ?? 0))
+    .slice(0, MAX_CHAT_REPOS)
+    .map((r) => r.analysis);
+  if (repos.length === 0) return [];
+
+  const files = await db.query.repoFileCache.findMany({
+    where: inArray(repoFileCache.repoUrl, repos.map((r) => r.repoUrl)),
+    orderBy: [asc(repoFileCache.path)],
+  });
+  const matchingExcerpts = files
+    .flatMap((file) => excerpts(file.content).map((content) => ({ file, content, score: score(questionTerms, content) })))
+    .filter((e) => e.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_FILE_EXCERPTS);
+
+  const sources: ChatSource[] = repos.map((analysis, i) => ({
+    ref: i + 1,
+    repoUrl: analysis.repoUrl,
+    path: null,
+    url: analysis.repoUrl,
+    content: JSON.stringify({
+      ranking: analysis.aiRanking,
+      stars: analysis.stars,
+      summary: analysis.aiSummary,
+      prosCons: analysis.aiProsCons,
+      techStack: analysis.techStack,
+      health: analysis.health,
+      judgeVerdict: analysis.judgeVerdict,
+    }, null, 2),
+  }));
+  for (const excerpt of matchingExcerpts) {
+    sources.push({
+      ref: sources.length + 1,
+      repoUrl: excerpt.file.repoUrl,
+      path: excerpt.file.path,
+      url: fileUrl(excerpt.file),
+      content: excerpt.content,
+    });
+  }
+  return sources;
+}
+
+export function buildChatPrompt(query: string, sources: ChatSource[], history: ChatMessage[]): string {
+  const conversation = history
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n");
+  const sourceList = sources
+    .map((s) => `[${s.ref}] ${s.path ? `${s.repoUrl} — file ${s.path}` : `${s.repoUrl} — analysis`}\n${s.content}`)
+    .join("\n\n");
+
+  return `
+    The user is asking a follow-up question about the results of a GitHub repository search.
+    ${conversation ? `
+    The conversation so far:
+    ---
+    ${conversation}
+    ---` : ""}
+    Sources (the search's analyses of the most relevant repositories, and excerpts of their files):
+    ---
+    ${sourceList || "No repositories have been analyzed for this search."}
+    ---
+    User question: "${query}"
+
+    Answer using only the sources above. Cite every claim inline with the number of its source,
+    e.g. "It uses Hono [2]." or "Both are actively maintained [1][3].", and name the repositories you
+    talk about. If the sources do not answer the question, say so instead of guessing.
+  `;
+}
+
+/**
+ * The sources the answer cites, in order of first citation. Numbers that match
+ * no source are ignored.
+ */
+export function extractCitations(answer: string, sources: ChatSource[]): ChatCitation[] {
+  const byRef = new Map(sources.map((s) => [s.ref, s]));
+  const cited = new Map<number, ChatCitation>();
+  for (const match of answer.matchAll(/\[(\d+)\]/g)) {
+    const source = byRef.get(Number(match[1]));
+    if (source && !cited.has(source.ref)) {
+      cited.set(source.ref, { ref: source.ref, repoUrl: source.repoUrl, path: source.path, url: source.url });
+    }
+  }
+  return [...cited.values()];
+}
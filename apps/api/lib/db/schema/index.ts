@@ -5,9 +5,7 @@ export * from "./health_incidents";
 export * from "./health_test_definitions";
 export * from "./health_test_results";
 export * from "./insight_runs";
-export * from "./request_logs";
-export * from "./request_meta";
-export * from "./request_results";
+export * from "./knowledge";
 export * from "./requests";
 export * from "./runs";
 // Export other files if they exist and contain tables.
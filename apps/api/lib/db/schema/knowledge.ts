@@ -0,0 +1,162 @@
+import { and, eq, inArray, sql, type SQL } from "drizzle-orm";
+import { index, integer, primaryKey, sqliteTable, text } from "drizzle-orm/sqlite-core";
+
+import { getDb } from "../index";
+import type { KeywordCandidates, KnowledgeChunk, KnowledgeKind, SearchFilter, StoredChunk } from "../../search/types";
+
+// --- Schema ---
+
+// The text of every chunk in the search index; the embeddings live in Vectorize under the same id.
+export const knowledgeChunks = sqliteTable("knowledge_chunks", {
+  id: text("id").primaryKey(),
+  documentId: text("document_id").notNull(),
+  kind: text("kind").notNull(),
+  source: text("source").notNull(),
+  content: text("content").notNull(),
+  // Number of terms, for BM25 length normalization.
+  length: integer("length").notNull(),
+  metadataJson: text("metadata_json"),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+}, (table) => [
+  index("knowledge_chunks_document_idx").on(table.documentId),
+]);
+
+// Inverted index for BM25: how often each term occurs in each chunk.
+export const knowledgeTerms = sqliteTable("knowledge_terms", {
+  chunkId: text("chunk_id").notNull().references(() => knowledgeChunks.id, { onDelete: "cascade" }),
+  term: text("term").notNull(),
+  tf: integer("tf").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.chunkId, table.term] }),
+  index("knowledge_terms_term_idx").on(table.term),
+]);
+
+// D1 allows 100 bound parameters per statement.
+const INSERT_BATCH_ROWS = 25;
+
+// Postings read per keyword query; very common terms are cut off rather than scanned in full.
+const MAX_KEYWORD_POSTINGS = 5000;
+
+function batches<T>(rows: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < rows.length; i += INSERT_BATCH_ROWS) {
+    result.push(rows.slice(i, i + INSERT_BATCH_ROWS));
+  }
+  return result;
+}
+
+function chunkFilter(filter: SearchFilter): SQL | undefined {
+  return and(
+    filter.kind ? eq(knowledgeChunks.kind, filter.kind) : undefined,
+    filter.source ? eq(knowledgeChunks.source, filter.source) : undefined,
+  );
+}
+
+// --- Logic ---
+
+/**
+ * deleteKnowledgeDocument
+ * Removes a document's chunks (and their terms) and returns the chunk ids, so
+ * the caller can drop the matching vectors.
+ */
+export async function deleteKnowledgeDocument(env: Env, documentId: string): Promise<string[]> {
+  const db = getDb(env);
+  const deleted = await db.delete(knowledgeChunks)
+    .where(eq(knowledgeChunks.documentId, documentId))
+    .returning({ id: knowledgeChunks.id });
+  return deleted.map((c) => c.id);
+}
+
+/**
+ * upsertKnowledgeChunks
+ * Replaces the stored chunks of every document the given chunks belong to.
+ */
+export async function upsertKnowledgeChunks(env: Env, chunks: StoredChunk[]) {
+  const db = getDb(env);
+  for (const documentId of new Set(chunks.map((c) => c.documentId))) {
+    await deleteKnowledgeDocument(env, documentId);
+  }
+
+  for (const batch of batches(chunks)) {
+    await db.insert(knowledgeChunks).values(batch.map((c) => ({
+      id: c.id,
+      documentId: c.documentId,
+      kind: c.kind,
+      source: c.source,
+      content: c.content,
+      length: c.length,
+      metadataJson: c.metadata ? JSON.stringify(c.metadata) : null,
+    })));
+  }
+
+  const terms = chunks.flatMap((c) =>
+    Object.entries(c.termFrequencies).map(([term, tf]) => ({ chunkId: c.id, term, tf })));
+  for (const batch of batches(terms)) {
+    await db.insert(knowledgeTerms).values(batch);
+  }
+}
+
+export async function getKnowledgeChunks(env: Env, ids: string[]): Promise<KnowledgeChunk[]> {
+  if (ids.length === 0) return [];
+  const db = getDb(env);
+  const rows = await db.select().from(knowledgeChunks).where(inArray(knowledgeChunks.id, ids));
+  return rows.map((r) => ({
+    id: r.id,
+    documentId: r.documentId,
+    kind: r.kind as KnowledgeKind,
+    source: r.source,
+    content: r.content,
+    metadata: r.metadataJson ? JSON.parse(r.metadataJson) : undefined,
+  }));
+}
+
+/**
+ * getKeywordCandidates
+ * Corpus statistics of the chunks matching the filter, and the chunks among
+ * them that contain any of the terms, with their term frequencies.
+ */
+export async function getKeywordCandidates(env: Env, terms: string[], filter: SearchFilter): Promise<KeywordCandidates> {
+  const db = getDb(env);
+  const [stats] = await db
+    .select({
+      chunkCount: sql<number>`count(*)`,
+      averageLength: sql<number>`coalesce(avg(${knowledgeChunks.length}), 0)`,
+    })
+    .from(knowledgeChunks)
+    .where(chunkFilter(filter));
+  if (terms.length === 0) {
+    return { chunkCount: Number(stats.chunkCount), averageLength: Number(stats.averageLength), documentFrequency: {}, chunks: [] };
+  }
+
+  const matching = and(inArray(knowledgeTerms.term, terms), chunkFilter(filter));
+  const frequencies = await db
+    .select({ term: knowledgeTerms.term, chunks: sql<number>`count(*)` })
+    .from(knowledgeTerms)
+    .innerJoin(knowledgeChunks, eq(knowledgeTerms.chunkId, knowledgeChunks.id))
+    .where(matching)
+    .groupBy(knowledgeTerms.term);
+  const postings = await db
+    .select({
+      chunkId: knowledgeTerms.chunkId,
+      term: knowledgeTerms.term,
+      tf: knowledgeTerms.tf,
+      length: knowledgeChunks.length,
+    })
+    .from(knowledgeTerms)
+    .innerJoin(knowledgeChunks, eq(knowledgeTerms.chunkId, knowledgeChunks.id))
+    .where(matching)
+    .limit(MAX_KEYWORD_POSTINGS);
+
+  const chunks = new Map<string, KeywordCandidates["chunks"][number]>();
+  for (const p of postings) {
+    const chunk = chunks.get(p.chunkId) ?? { id: p.chunkId, length: p.length, termFrequencies: {} };
+    chunk.termFrequencies[p.term] = p.tf;
+    chunks.set(p.chunkId, chunk);
+  }
+  return {
+    chunkCount: Number(stats.chunkCount),
+    averageLength: Number(stats.averageLength),
+    documentFrequency: Object.fromEntries(frequencies.map((f) => [f.term, Number(f.chunks)])),
+    chunks: [...chunks.values()],
+  };
+}
@@ -1,4 +1,4 @@
-import { eq, relations, sql } from "drizzle-orm";
+import { and, asc, eq, gt, isNotNull, isNull, relations, sql } from "drizzle-orm";
 import { integer, real, sqliteTable, text } from "drizzle-orm/sqlite-core";
 
 import { getDb } from "../index";
@@ -33,6 +33,42 @@ export const requestLogs = sqliteTable("request_logs", {
   createdAt: integer("createdAt", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
 });
 
+// One row per BaseAgent.logEvent call: messages, tool calls and results, with provider/model/latency/tokens.
+// Text payloads longer than AGENT_EVENT_MAX_CHARS are truncated; original_length keeps the full size.
+// request_id is not a foreign key: searches are Postgres github_requests rows with no D1 requests row.
+export const agentEvents = sqliteTable("agent_events", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  requestId: text("request_id"),
+  agent: text("agent").notNull(),
+  role: text("role").notNull(),
+  content: text("content").notNull(),
+  originalLength: integer("original_length"),
+  actionType: text("action_type").notNull().default("MESSAGE"),
+  toolName: text("tool_name"),
+  toolArgsJson: text("tool_args_json"),
+  provider: text("provider"),
+  model: text("model"),
+  latencyMs: integer("latency_ms"),
+  inputTokens: integer("input_tokens"),
+  outputTokens: integer("output_tokens"),
+  costUsd: real("cost_usd"),
+  status: text("status").notNull().default("SUCCESS"),
+  error: text("error"),
+  metadataJson: text("metadata_json"),
+  createdAt: integer("createdAt", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+});
+
+// Spend limits of a request with a budget (see agents/core/budget.ts), shared by all of its agents.
+// github_calls counts GitHub tool calls; exhausted_reason is set by the first agent to hit a limit.
+// Like agent_events.request_id, request_id holds a github_requests id and is not a foreign key.
+export const requestBudgets = sqliteTable("request_budgets", {
+  requestId: text("request_id").primaryKey(),
+  limitsJson: text("limits_json").notNull(),
+  githubCalls: integer("github_calls").notNull().default(0),
+  startedAt: integer("started_at", { mode: "timestamp" }).notNull().default(sql`(unixepoch())`),
+  exhaustedReason: text("exhausted_reason"),
+});
+
 export const requestResults = sqliteTable("request_results", {
   id: integer("id").primaryKey({ autoIncrement: true }),
   requestId: text("request_id").notNull().references(() => requests.id, { onDelete: "cascade" }),
@@ -52,6 +88,11 @@ export const requestsRelations = relations(requests, ({ one, many }) => ({
   }),
   logs: many(requestLogs),
   results: many(requestResults),
+  agentEvents: many(agentEvents),
+  budget: one(requestBudgets, {
+    fields: [requests.id],
+    references: [requestBudgets.requestId],
+  }),
 }));
 
 export const requestMetaRelations = relations(requestMeta, ({ one }) => ({
@@ -68,6 +109,20 @@ export const requestLogsRelations = relations(requestLogs, ({ one }) => ({
   }),
 }));
 
+export const agentEventsRelations = relations(agentEvents, ({ one }) => ({
+  request: one(requests, {
+    fields: [agentEvents.requestId],
+    references: [requests.id],
+  }),
+}));
+
+export const requestBudgetsRelations = relations(requestBudgets, ({ one }) => ({
+  request: one(requests, {
+    fields: [requestBudgets.requestId],
+    references: [requests.id],
+  }),
+}));
+
 export const requestResultsRelations = relations(requestResults, ({ one }) => ({
   request: one(requests, {
     fields: [requestResults.requestId],
@@ -209,6 +264,183 @@ export async function appendLog(
     });
 }
 
+/**
+ * listRequestLogs
+ * Log rows for a request after the given log id, oldest first.
+ */
+export async function listRequestLogs(
+    env: Env,
+    requestId: string,
+    afterId = 0,
+    limit = 200
+) {
+    const db = getDb(env);
+    return db.query.requestLogs.findMany({
+        where: and(eq(requestLogs.requestId, requestId), gt(requestLogs.id, afterId)),
+        orderBy: asc(requestLogs.id),
+        limit,
+    });
+}
+
+export const AGENT_EVENT_MAX_CHARS = 8000;
+
+function truncate(text: string | null | undefined, max = AGENT_EVENT_MAX_CHARS) {
+    if (text == null) return null;
+    return text.length > max ? `${text.slice(0, max)}… [truncated ${text.length - max} chars]` : text;
+}
+
+export interface AgentEventInput {
+    requestId?: string | null;
+    agent: string;
+    role: string;
+    content: string;
+    actionType?: string;
+    toolName?: string;
+    toolArgs?: unknown;
+    provider?: string;
+    model?: string;
+    latencyMs?: number;
+    tokens?: { input: number; output: number };
+    costUsd?: number;
+    status?: string;
+    error?: string;
+    metadataJson?: string;
+}
+
+/**
+ * appendAgentEvent
+ * Stores one agent observability record, truncating large payloads.
+ */
+export async function appendAgentEvent(env: Env, event: AgentEventInput) {
+    const db = getDb(env);
+    await db.insert(agentEvents).values({
+        requestId: event.requestId ?? null,
+        agent: event.agent,
+        role: event.role,
+        content: truncate(event.content)!,
+        originalLength: event.content.length > AGENT_EVENT_MAX_CHARS ? event.content.length : null,
+        actionType: event.actionType ?? "MESSAGE",
+        toolName: event.toolName,
+        toolArgsJson: truncate(event.toolArgs === undefined ? null : JSON.stringify(event.toolArgs)),
+        provider: event.provider,
+        model: event.model,
+        latencyMs: event.latencyMs != null ? Math.round(event.latencyMs) : null,
+        inputTokens: event.tokens?.input,
+        outputTokens: event.tokens?.output,
+        costUsd: event.costUsd,
+        status: event.status ?? "SUCCESS",
+        error: truncate(event.error),
+        metadataJson: truncate(event.metadataJson),
+        createdAt: new Date(),
+    });
+}
+
+/**
+ * listAgentEvents
+ * Agent events for a request after the given event id, oldest first.
+ */
+export async function listAgentEvents(
+    env: Env,
+    requestId: string,
+    afterId = 0,
+    limit = 500
+) {
+    const db = getDb(env);
+    return db.query.agentEvents.findMany({
+        where: and(eq(agentEvents.requestId, requestId), gt(agentEvents.id, afterId)),
+        orderBy: asc(agentEvents.id),
+        limit,
+    });
+}
+
+export interface UsageTotals {
+    inputTokens: number;
+    outputTokens: number;
+    // Unpriced models add tokens but no cost.
+    costUsd: number;
+    calls: number;
+}
+
+export interface RequestUsage extends UsageTotals {
+    byAgent: (UsageTotals & { agent: string; provider: string | null; model: string | null })[];
+}
+
+/**
+ * summarizeRequestUsage
+ * Token and estimated cost totals of a request's model calls, overall and per agent/provider/model.
+ */
+export async function summarizeRequestUsage(env: Env, requestId: string): Promise<RequestUsage> {
+    const db = getDb(env);
+    const rows = await db
+        .select({
+            agent: agentEvents.agent,
+            provider: agentEvents.provider,
+            model: agentEvents.model,
+            inputTokens: sql<number>`coalesce(sum(${agentEvents.inputTokens}), 0)`,
+            outputTokens: sql<number>`coalesce(sum(${agentEvents.outputTokens}), 0)`,
+            costUsd: sql<number>`coalesce(sum(${agentEvents.costUsd}), 0)`,
+            calls: sql<number>`count(*)`,
+        })
+        .from(agentEvents)
+        .where(and(eq(agentEvents.requestId, requestId), isNotNull(agentEvents.inputTokens)))
+        .groupBy(agentEvents.agent, agentEvents.provider, agentEvents.model);
+
+    const total = (key: keyof UsageTotals) => rows.reduce((sum, r) => sum + Number(r[key]), 0);
+    return {
+        inputTokens: total("inputTokens"),
+        outputTokens: total("outputTokens"),
+        costUsd: total("costUsd"),
+        calls: total("calls"),
+        byAgent: rows.map((r) => ({
+            ...r,
+            inputTokens: Number(r.inputTokens),
+            outputTokens: Number(r.outputTokens),
+            costUsd: Number(r.costUsd),
+            calls: Number(r.calls),
+        })),
+    };
+}
+
+/**
+ * setRequestBudget
+ * Starts (or restarts) a request's budget: the clock and the GitHub call count begin at zero.
+ */
+export async function setRequestBudget(env: Env, requestId: string, limits: unknown) {
+    const db = getDb(env);
+    const limitsJson = JSON.stringify(limits);
+    await db.insert(requestBudgets)
+        .values({ requestId, limitsJson, startedAt: new Date() })
+        .onConflictDoUpdate({
+            target: requestBudgets.requestId,
+            set: { limitsJson, githubCalls: 0, startedAt: new Date(), exhaustedReason: null },
+        });
+}
+
+export async function getRequestBudget(env: Env, requestId: string) {
+    const db = getDb(env);
+    return db.query.requestBudgets.findFirst({
+        where: eq(requestBudgets.requestId, requestId),
+    });
+}
+
+export async function recordGithubCalls(env: Env, requestId: string, count = 1) {
+    const db = getDb(env);
+    await db.update(requestBudgets)
+        .set({ githubCalls: sql`${requestBudgets.githubCalls} + ${count}` })
+        .where(eq(requestBudgets.requestId, requestId));
+}
+
+/**
+ * markBudgetExhausted
+ * Records why the budget ran out; the first reason recorded is kept.
+ */
+export async function markBudgetExhausted(env: Env, requestId: string, reason: string) {
+    const db = getDb(env);
+    await db.update(requestBudgets)
+        .set({ exhaustedReason: reason })
+        .where(and(eq(requestBudgets.requestId, requestId), isNull(requestBudgets.exhaustedReason)));
+}
+
 export async function insertResult(
     env: Env,
     requestId: string,
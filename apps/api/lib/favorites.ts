@@ -0,0 +1,74 @@
+/**
+ * Favorite and tag state of repositories, as seen by one user.
+ *
+ * Favorites are per user; tags are shared by the whole team. Both are keyed by
+ * repo URL, so any list of repositories (search results, favorites) can be
+ * annotated with a single lookup.
+ */
+
+import { and, eq, inArray } from "drizzle-orm";
+import { favorites, repoTags } from "../../../db/schema";
+import type { AppContext } from "./context";
+
+type Database = AppContext["Variables"]["db"];
+
+export interface TagSummary {
+  id: string;
+  name: string;
+  cssColor: string | null;
+}
+
+export interface RepoCuration {
+  favorite: { id: string; notes: string | null; timestamp: Date } | null;
+  tags: TagSummary[];
+}
+
+/**
+ * The caller's active favorite and the active tags of each repo in `repoUrls`.
+ * Repos with neither are still present in the map, with `favorite: null, tags: []`.
+ */
+export async function loadRepoCuration(
+  db: Database,
+  userId: string | null,
+  repoUrls: string[],
+): Promise<Map<string, RepoCuration>> {
+  const curation = new Map<string, RepoCuration>(
+    repoUrls.map((url) => [url, { favorite: null, tags: [] }]),
+  );
+  if (repoUrls.length === 0) {
+    return curation;
+  }
+
+  const [favoriteRows, tagRows] = await Promise.all([
+    userId
+      ? db.query.favorites.findMany({
+          where: and(
+            eq(favorites.userId, userId),
+            eq(favorites.isActive, true),
+            inArray(favorites.repoUrl, repoUrls),
+          ),
+        })
+      : Promise.resolve([]),
+    db.query.repoTags.findMany({
+      where: and(eq(repoTags.isActive, true), inArray(repoTags.repoUrl, repoUrls)),
+      with: { tag: true },
+    }),
+  ]);
+
+  for (const f of favoriteRows) {
+    curation.get(f.repoUrl)!.favorite = { id: f.id, notes: f.notes, timestamp: f.timestamp };
+  }
+  for (const rt of tagRows) {
+    if (rt.tag.isActive) {
+      curation.get(rt.repoUrl)!.tags.push({ id: rt.tag.id, name: rt.tag.name, cssColor: rt.tag.cssColor });
+    }
+  }
+  return curation;
+}
+
+/**
+ * The canonical form repo URLs are stored in: no trailing slash or ".git".
+ */
+export function normalizeRepoUrl(repoUrl: string): string {
+  return repoUrl.trim().replace(/\/+$/, "").replace(/\.git$/, "");
+}
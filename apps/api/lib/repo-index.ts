@@ -0,0 +1,178 @@
+/**
+ * Semantic index of every repository the team has analyzed.
+ *
+ * Each analyzed repo is two documents in the knowledge base (lib/search):
+ * its profile (summary, tech stack, pros and cons) as kind "repo-analysis",
+ * and its README as kind "repo-readme", both with the repo URL as source.
+ * Embeddings come from `generateEmbedding`, i.e. the DEFAULT_MODEL_EMBEDDING
+ * model. Everything indexed is already in the database (repo analyses and the
+ * README kept in repo_file_cache), so indexing makes no GitHub calls.
+ *
+ * Analysts index a repo as they finish analyzing it; reindexAnalyzedRepos
+ * backfills repos analyzed before that.
+ */
+
+import { and, asc, desc, eq, gt, inArray } from "drizzle-orm";
+import { repoAnalysis, repoAnalysisCache, repoFileCache } from "../../../db/schema";
+import type { AppContext } from "./context";
+import { SearchService, type SearchResult } from "./search";
+
+type Database = AppContext["Variables"]["db"];
+
+export interface RepoProfile {
+  aiSummary: string | null;
+  techStack: unknown;
+  aiProsCons: unknown;
+  stars: number | null;
+}
+
+export interface RepoMatch {
+  repoUrl: string;
+  score: number;
+  /** Whether the best match was the repo's analysis or its README. */
+  matchedIn: "analysis" | "readme";
+  excerpt: string;
+  profile: RepoProfile | null;
+}
+
+// Search hits fetched per wanted repo; a README spans several chunks of the same repo.
+const HITS_PER_REPO = 3;
+
+function profileText(repoUrl: string, profile: RepoProfile): string {
+  const prosCons = (profile.aiProsCons ?? {}) as { pros?: string[]; cons?: string[] };
+  const techStack = Array.isArray(profile.techStack) ? profile.techStack.join(", ") : "";
+  return [
+    repoUrl,
+    profile.aiSummary ?? "",
+    techStack && `Tech stack: ${techStack}`,
+    prosCons.pros?.length ? `Pros: ${prosCons.pros.join("; ")}` : "",
+    prosCons.cons?.length ? `Cons: ${prosCons.cons.join("; ")}` : "",
+  ].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Indexes (or re-indexes) a repo's profile and, if given, its README.
+ */
+export async function indexRepository(env: Env, repoUrl: string, profile: RepoProfile, readme?: string | null) {
+  const searcher = new SearchService(env);
+  await searcher.ingest({
+    id: `repo-analysis:${repoUrl}`,
+    kind: "repo-analysis",
+    source: repoUrl,
+    content: profileText(repoUrl, profile),
+  });
+  if (readme) {
+    await searcher.ingest({
+      id: `repo-readme:${repoUrl}`,
+      kind: "repo-readme",
+      source: repoUrl,
+      content: readme,
+    });
+  }
+}
+
+/**
+ * The most recent analysis facts of each repo, from the analysis cache where
+ * there is an entry and from any completed analysis otherwise.
+ */
+export async function loadRepoProfiles(db: Database, repoUrls: string[]): Promise<Map<string, RepoProfile>> {
+  const profiles = new Map<string, RepoProfile>();
+  if (repoUrls.length === 0) return profiles;
+
+  const cached = await db.query.repoAnalysisCache.findMany({
+    where: inArray(repoAnalysisCache.repoUrl, repoUrls),
+    orderBy: [desc(repoAnalysisCache.analyzedAt)],
+  });
+  for (const c of cached) {
+    if (!profiles.has(c.repoUrl)) profiles.set(c.repoUrl, c);
+  }
+
+  const uncached = repoUrls.filter((url) => !profiles.has(url));
+  if (uncached.length > 0) {
+    const analyses = await db.query.repoAnalysis.findMany({
+      where: and(inArray(repoAnalysis.repoUrl, uncached), eq(repoAnalysis.status, "complete")),
+    });
+    for (const a of analyses) {
+      if (!profiles.has(a.repoUrl)) profiles.set(a.repoUrl, a);
+    }
+  }
+  return profiles;
+}
+
+/**
+ * Indexes up to `limit` analyzed repos in URL order, starting after `after`.
+ * Pass the returned `nextAfter` to continue; it is null once every repo is done.
+ */
+export async function reindexAnalyzedRepos(
+  env: Env,
+  db: Database,
+  after: string | undefined,
+  limit: number,
+): Promise<{ indexed: string[]; nextAfter: string | null }> {
+  const rows = await db
+    .selectDistinct({ repoUrl: repoAnalysis.repoUrl })
+    .from(repoAnalysis)
+    .where(and(eq(repoAnalysis.status, "complete"), after ? gt(repoAnalysis.repoUrl, after) : undefined))
+    .orderBy(asc(repoAnalysis.repoUrl))
+    .limit(limit);
+  const repoUrls = rows.map((r) => r.repoUrl);
+
+  const profiles = await loadRepoProfiles(db, repoUrls);
+  const readmes = repoUrls.length > 0
+    ? await db.query.repoFileCache.findMany({
+        where: and(inArray(repoFileCache.repoUrl, repoUrls), eq(repoFileCache.kind, "readme")),
+      })
+    : [];
+
+  for (const repoUrl of repoUrls) {
+    const readme = readmes.find((f) => f.repoUrl === repoUrl)?.content;
+    await indexRepository(env, repoUrl, profiles.get(repoUrl)!, readme);
+  }
+  return { indexed: repoUrls, nextAfter: repoUrls.length === limit ? repoUrls[repoUrls.length - 1] : null };
+}
+
+// The best hit per repo, best repos first.
+async function toRepoMatches(db: Database, hits: SearchResult[], limit: number): Promise<RepoMatch[]> {
+  const best = new Map<string, SearchResult>();
+  for (const hit of hits) {
+    const current = best.get(hit.source);
+    if (!current || hit.score > current.score) best.set(hit.source, hit);
+  }
+  const top = [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+  const profiles = await loadRepoProfiles(db, top.map((hit) => hit.source));
+  return top.map((hit) => ({
+    repoUrl: hit.source,
+    score: hit.score,
+    matchedIn: hit.kind === "repo-readme" ? "readme" : "analysis",
+    excerpt: hit.content,
+    profile: profiles.get(hit.source) ?? null,
+  }));
+}
+
+/**
+ * Repos whose analysis reads most like that of `repoUrl`, or null if the repo
+ * was never analyzed. Only the profiles are compared: READMEs vary too much in
+ * length and structure to say much about how alike two projects are.
+ */
+export async function findSimilarRepos(env: Env, db: Database, repoUrl: string, limit: number): Promise<RepoMatch[] | null> {
+  const profile = (await loadRepoProfiles(db, [repoUrl])).get(repoUrl);
+  if (!profile) return null;
+
+  const hits = await new SearchService(env).search(profileText(repoUrl, profile), limit + 1, {
+    kind: "repo-analysis",
+    vectorWeight: 1,
+  });
+  return toRepoMatches(db, hits.filter((hit) => hit.source !== repoUrl && hit.vectorScore > 0), limit);
+}
+
+/**
+ * Analyzed repos matching a free-text query, by their analysis or their README.
+ */
+export async function searchAnalyzedRepos(env: Env, db: Database, query: string, limit: number): Promise<RepoMatch[]> {
+  const searcher = new SearchService(env);
+  const [analyses, readmes] = await Promise.all([
+    searcher.search(query, limit * HITS_PER_REPO, { kind: "repo-analysis" }),
+    searcher.search(query, limit * HITS_PER_REPO, { kind: "repo-readme" }),
+  ]);
+  return toRepoMatches(db, [...analyses, ...readmes], limit);
+}
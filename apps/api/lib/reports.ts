@@ -0,0 +1,236 @@
+/**
+ * Report rendering for search results and curated collections.
+ *
+ * Turns a request's repo_analysis rows into a Markdown, CSV or JSON document.
+ * The Markdown report is a comparison table followed by one section per repo.
+ * Collections render the same way, with who added each repo, when and why.
+ */
+
+import type { collectionRepos, collections, githubRequests, repoAnalysis } from "../../../db/schema";
+
+export const REPORT_FORMATS = ["md", "csv", "json"] as const;
+export type ReportFormat = (typeof REPORT_FORMATS)[number];
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  md: "text/markdown; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+type SearchRequest = typeof githubRequests.$inferSelect;
+type Analysis = typeof repoAnalysis.$inferSelect;
+type Collection = typeof collections.$inferSelect;
+
+// A collection entry with the search result it was added from and the name of the member who added it.
+export type CollectionEntry = typeof collectionRepos.$inferSelect & {
+  analysis: Analysis | null;
+  addedByName: string | null;
+};
+
+interface ProsCons {
+  pros?: string[];
+  cons?: string[];
+}
+
+// One flat, format-independent row per analyzed repository.
+interface ReportRow {
+  rank: number;
+  repoUrl: string;
+  ranking: number | null;
+  stars: number | null;
+  techStack: string[];
+  summary: string;
+  pros: string[];
+  cons: string[];
+  judgeVerdict: string | null;
+  judgeReasoning: string | null;
+}
+
+function toRows(analyses: Analysis[]): ReportRow[] {
+  return [...analyses]
+    .sort((a, b) => (b.aiRanking ?? 0) - (a.aiRanking ?? 0))
+    .map((a, i) => {
+      const prosCons = (a.aiProsCons ?? {}) as ProsCons;
+      return {
+        rank: i + 1,
+        repoUrl: a.repoUrl,
+        ranking: a.aiRanking,
+        stars: a.stars,
+        techStack: Array.isArray(a.techStack) ? (a.techStack as string[]) : [],
+        summary: a.aiSummary ?? "",
+        pros: prosCons.pros ?? [],
+        cons: prosCons.cons ?? [],
+        judgeVerdict: a.judgeVerdict,
+        judgeReasoning: a.judgeReasoning,
+      };
+    });
+}
+
+function repoName(repoUrl: string): string {
+  return repoUrl.replace(/^https?:\/\/github\.com\//, "");
+}
+
+// Table cells cannot contain pipes or line breaks.
+function mdCell(value: unknown): string {
+  return String(value ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ");
+}
+
+function csvCell(value: unknown): string {
+  const text = String(value ?? "");
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function renderMarkdown(request: SearchRequest, rows: ReportRow[]): string {
+  const lines = [
+    `# ${reportTitle(request)}`,
+    "",
+    `- Request: \`${request.id}\``,
+    `- Generated: ${new Date().toISOString()}`,
+    `- Repositories: ${rows.length}`,
+    "",
+    "## Comparison",
+    "",
+    "| # | Repository | Ranking | Stars | Judge | Tech stack |",
+    "| - | ---------- | ------- | ----- | ----- | ---------- |",
+    ...rows.map(
+      (r) =>
+        `| ${r.rank} | [${mdCell(repoName(r.repoUrl))}](${r.repoUrl}) | ${mdCell(r.ranking)} | ${mdCell(r.stars)} | ${mdCell(r.judgeVerdict ?? "-")} | ${mdCell(r.techStack.join(", "))} |`,
+    ),
+  ];
+
+  for (const r of rows) {
+    lines.push("", `## ${r.rank}. ${repoName(r.repoUrl)}`, "", r.summary);
+    if (r.pros.length > 0) {
+      lines.push("", "**Pros**", "", ...r.pros.map((p) => `- ${p}`));
+    }
+    if (r.cons.length > 0) {
+      lines.push("", "**Cons**", "", ...r.cons.map((c) => `- ${c}`));
+    }
+    if (r.judgeVerdict) {
+      lines.push("", `**Judge:** ${r.judgeVerdict}${r.judgeReasoning ? ` — ${r.judgeReasoning}` : ""}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function renderCsv(rows: ReportRow[]): string {
+  const header = ["rank", "repo_url", "ranking", "stars", "tech_stack", "summary", "pros", "cons", "judge_verdict", "judge_reasoning"];
+  const body = rows.map((r) =>
+    [
+      r.rank,
+      r.repoUrl,
+      r.ranking,
+      r.stars,
+      r.techStack.join("; "),
+      r.summary,
+      r.pros.join("; "),
+      r.cons.join("; "),
+      r.judgeVerdict,
+      r.judgeReasoning,
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return `${[header.join(","), ...body].join("\n")}\n`;
+}
+
+function renderJson(request: SearchRequest, rows: ReportRow[]): string {
+  return JSON.stringify(
+    {
+      requestId: request.id,
+      query: request.query,
+      generatedAt: new Date().toISOString(),
+      results: rows,
+    },
+    null,
+    2,
+  );
+}
+
+/**
+ * A human-readable title for a request's report.
+ */
+export function reportTitle(request: SearchRequest): string {
+  return `GitHub search: ${request.query}`;
+}
+
+/**
+ * Renders the analyses of `request` in the given format, best-ranked first.
+ */
+export function renderReport(
+  format: ReportFormat,
+  request: SearchRequest,
+  analyses: Analysis[],
+): string {
+  const rows = toRows(analyses);
+  switch (format) {
+    case "md":
+      return renderMarkdown(request, rows);
+    case "csv":
+      return renderCsv(rows);
+    case "json":
+      return renderJson(request, rows);
+  }
+}
+
+/**
+ * Renders a collection in the given format, in the order repos were added.
+ */
+export function renderCollection(
+  format: ReportFormat,
+  collection: Collection,
+  entries: CollectionEntry[],
+): string {
+  const rows = entries.map((e) => ({
+    repoUrl: e.repoUrl,
+    rationale: e.rationale,
+    addedBy: e.addedByName,
+    addedAt: e.addedAt.toISOString(),
+    summary: e.analysis?.aiSummary ?? null,
+    ranking: e.analysis?.aiRanking ?? null,
+    stars: e.analysis?.stars ?? null,
+  }));
+
+  switch (format) {
+    case "md": {
+      const lines = [
+        `# ${collection.name}`,
+        "",
+        ...(collection.description ? [collection.description, ""] : []),
+        `- Generated: ${new Date().toISOString()}`,
+        `- Repositories: ${rows.length}`,
+        "",
+        "| Repository | Rationale | Added by | Added |",
+        "| ---------- | --------- | -------- | ----- |",
+        ...rows.map(
+          (r) =>
+            `| [${mdCell(repoName(r.repoUrl))}](${r.repoUrl}) | ${mdCell(r.rationale)} | ${mdCell(r.addedBy ?? "-")} | ${r.addedAt.slice(0, 10)} |`,
+        ),
+      ];
+      for (const r of rows.filter((r) => r.summary)) {
+        lines.push("", `## ${repoName(r.repoUrl)}`, "", r.summary!);
+      }
+      return `${lines.join("\n")}\n`;
+    }
+    case "csv": {
+      const header = ["repo_url", "rationale", "added_by", "added_at", "ranking", "stars", "summary"];
+      const body = rows.map((r) =>
+        [r.repoUrl, r.rationale, r.addedBy, r.addedAt, r.ranking, r.stars, r.summary].map(csvCell).join(","),
+      );
+      return `${[header.join(","), ...body].join("\n")}\n`;
+    }
+    case "json":
+      return JSON.stringify(
+        {
+          collectionId: collection.id,
+          name: collection.name,
+          description: collection.description,
+          generatedAt: new Date().toISOString(),
+          repos: rows,
+        },
+        null,
+        2,
+      );
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { scoreBm25, termFrequencies, tokenize } from "./bm25";
+import type { KeywordCandidates, StoredChunk } from "./types";
+
+function chunk(id: string, text: string): StoredChunk {
+  const terms = tokenize(text);
+  return {
+    id,
+    documentId: id,
+    kind: "regulation",
+    source: "test",
+    content: text,
+    length: terms.length,
+    termFrequencies: termFrequencies(terms),
+  };
+}
+
+// Corpus statistics over `chunks`, as a ChunkStore would return them.
+function candidates(terms: string[], chunks: StoredChunk[]): KeywordCandidates {
+  const documentFrequency: Record<string, number> = {};
+  for (const term of terms) {
+    documentFrequency[term] = chunks.filter(
+      (c) => c.termFrequencies[term],
+    ).length;
+  }
+  return {
+    chunkCount: chunks.length,
+    averageLength:
+      chunks.reduce((sum, c) => sum + c.length, 0) / (chunks.length || 1),
+    documentFrequency,
+    chunks: chunks.filter((c) => terms.some((t) => c.termFrequencies[t])),
+  };
+}
+
+describe("tokenize", () => {
+  it("lowercases and drops stopwords and single characters", () => {
+    expect(tokenize("The Permit is a B-2 form for Title 24")).toEqual([
+      "permit",
+      "form",
+      "title",
+      "24",
+    ]);
+  });
+
+  it("keeps letters outside ASCII", () => {
+    expect(tokenize("Bauordnung für Gebäude")).toEqual([
+      "bauordnung",
+      "für",
+      "gebäude",
+    ]);
+  });
+});
+
+describe("termFrequencies", () => {
+  it("counts every term", () => {
+    expect(termFrequencies(["fire", "code", "fire"])).toEqual({
+      fire: 2,
+      code: 1,
+    });
+  });
+});
+
+describe("scoreBm25", () => {
+  it("scores only the chunks containing a query term", () => {
+    const chunks = [
+      chunk("a", "fire sprinkler requirements"),
+      chunk("b", "electrical panel clearance"),
+    ];
+    const terms = tokenize("sprinkler");
+
+    const scores = scoreBm25(terms, candidates(terms, chunks));
+
+    expect([...scores.keys()]).toEqual(["a"]);
+  });
+
+  it("ranks rare terms above common ones", () => {
+    const chunks = [
+      chunk("seismic", "permit seismic"),
+      chunk("fee", "permit fee"),
+      chunk("fee-2", "permit fee"),
+    ];
+    const terms = tokenize("seismic fee");
+
+    const scores = scoreBm25(terms, candidates(terms, chunks));
+
+    expect(scores.get("seismic")).toBeGreaterThan(scores.get("fee")!);
+  });
+
+  it("ranks a shorter chunk with the same matches higher", () => {
+    const chunks = [
+      chunk("short", "egress width"),
+      chunk("long", "egress width stairs corridors doors landings ramps"),
+    ];
+    const terms = tokenize("egress");
+
+    const scores = scoreBm25(terms, candidates(terms, chunks));
+
+    expect(scores.get("short")).toBeGreaterThan(scores.get("long")!);
+  });
+
+  it("counts a repeated query term once", () => {
+    const chunks = [chunk("a", "asbestos survey"), chunk("b", "lead paint")];
+
+    const once = scoreBm25(["asbestos"], candidates(["asbestos"], chunks));
+    const twice = scoreBm25(
+      ["asbestos", "asbestos"],
+      candidates(["asbestos"], chunks),
+    );
+
+    expect(twice.get("a")).toBe(once.get("a"));
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * BM25 keyword scoring.
+ *
+ * Chunks are indexed as term frequencies; a query is scored against the
+ * candidate chunks a ChunkStore returns, using the corpus statistics of the
+ * same (filtered) set of chunks.
+ */
+
+import type { KeywordCandidates } from "./types";
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "has", "have", "how",
+  "if", "in", "into", "is", "it", "its", "of", "on", "or", "that", "the", "their", "there",
+  "these", "this", "to", "was", "were", "what", "when", "which", "who", "why", "will", "with",
+]);
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 1 && !STOPWORDS.has(term));
+}
+
+export function termFrequencies(terms: string[]): Record<string, number> {
+  const frequencies: Record<string, number> = {};
+  for (const term of terms) {
+    frequencies[term] = (frequencies[term] ?? 0) + 1;
+  }
+  return frequencies;
+}
+
+/**
+ * BM25 score of every candidate chunk for `queryTerms`, by chunk id.
+ */
+export function scoreBm25(queryTerms: string[], candidates: KeywordCandidates): Map<string, number> {
+  const scores = new Map<string, number>();
+  const { chunkCount, averageLength, documentFrequency } = candidates;
+  const terms = [...new Set(queryTerms)];
+
+  for (const chunk of candidates.chunks) {
+    let score = 0;
+    for (const term of terms) {
+      const tf = chunk.termFrequencies[term];
+      if (!tf) continue;
+      const df = documentFrequency[term] ?? 0;
+      const idf = Math.log(1 + (chunkCount - df + 0.5) / (df + 0.5));
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * (chunk.length / (averageLength || 1))));
+    }
+    if (score > 0) scores.set(chunk.id, score);
+  }
+  return scores;
+}
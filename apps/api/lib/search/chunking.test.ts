@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { chunkText } from "./chunking";
+
+describe("chunkText", () => {
+  it("keeps a short text in one chunk", () => {
+    expect(chunkText("  One paragraph.\n\nAnother one.  ")).toEqual([
+      "One paragraph.\n\nAnother one.",
+    ]);
+  });
+
+  it("is empty for blank text", () => {
+    expect(chunkText(" \n\n \n")).toEqual([]);
+  });
+
+  it("cuts at paragraph boundaries", () => {
+    const chunks = chunkText("aaaa aaaa\n\nbbbb bbbb\n\ncccc cccc", {
+      maxChars: 20,
+      overlap: 0,
+    });
+
+    expect(chunks).toEqual(["aaaa aaaa\n\nbbbb bbbb", "cccc cccc"]);
+  });
+
+  it("splits long paragraphs at sentence ends, then mid-sentence", () => {
+    const chunks = chunkText(`First sentence. ${"x".repeat(25)}`, {
+      maxChars: 20,
+      overlap: 0,
+    });
+
+    expect(chunks).toEqual(["First sentence.", "x".repeat(20), "x".repeat(5)]);
+  });
+
+  it("carries the tail of a chunk over from a word boundary", () => {
+    const chunks = chunkText("alpha beta gamma\n\ndelta epsilon", {
+      maxChars: 30,
+      overlap: 8,
+    });
+
+    expect(chunks).toEqual(["alpha beta gamma", "gamma\n\ndelta epsilon"]);
+  });
+
+  it("never produces a chunk over the limit", () => {
+    const text = Array.from(
+      { length: 40 },
+      (_, i) => `Paragraph ${i} talks about permits and inspections.`,
+    ).join("\n\n");
+
+    const chunks = chunkText(text, { maxChars: 200, overlap: 50 });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+    }
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Splits documents into overlapping chunks small enough to embed.
+ *
+ * Text is cut at paragraph boundaries where possible, then at sentence ends,
+ * and only as a last resort mid-sentence. Consecutive chunks share up to
+ * `overlap` characters so a passage cut in two is still found whole in one.
+ */
+
+export interface ChunkOptions {
+  maxChars?: number;
+  overlap?: number;
+}
+
+const DEFAULT_MAX_CHARS = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Paragraphs, then sentences, then hard cuts.
+function pieces(text: string, maxChars: number): string[] {
+  const result: string[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (trimmed.length <= maxChars) {
+      result.push(trimmed);
+      continue;
+    }
+    for (const sentence of trimmed.split(/(?<=[.!?])\s+/)) {
+      for (let start = 0; start < sentence.length; start += maxChars) {
+        result.push(sentence.slice(start, start + maxChars));
+      }
+    }
+  }
+  return result;
+}
+
+export function chunkText(text: string, options: ChunkOptions = {}): string[] {
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(maxChars / 2));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces(text, maxChars)) {
+    if (current && current.length + piece.length + 2 > maxChars) {
+      chunks.push(current);
+      // Carry the tail of the previous chunk over, starting at a word boundary.
+      const tail = current.slice(-overlap);
+      const wordStart = tail.indexOf(" ");
+      current = overlap > 0 && wordStart >= 0 ? tail.slice(wordStart + 1) : "";
+      if (current.length + piece.length + 2 > maxChars) current = "";
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,7 @@
+// Hybrid search over the knowledge base (see service.ts).
+
+export * from "./types";
+export * from "./chunking";
+export * from "./bm25";
+export * from "./memory";
+export * from "./service";
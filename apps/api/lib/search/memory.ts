@@ -0,0 +1,109 @@
+/**
+ * In-memory vector index and chunk store.
+ *
+ * Behave like Vectorize and the D1 chunk store, for tests and for running
+ * locally without a Vectorize binding. Everything is lost with the isolate.
+ */
+
+import type {
+  ChunkStore,
+  KeywordCandidates,
+  KnowledgeChunk,
+  SearchFilter,
+  StoredChunk,
+  VectorIndex,
+  VectorMatch,
+  VectorRecord,
+} from "./types";
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function matchesFilter(metadata: Record<string, unknown> | undefined, filter: Record<string, string> | undefined) {
+  return Object.entries(filter ?? {}).every(([key, value]) => metadata?.[key] === value);
+}
+
+export class InMemoryVectorIndex implements VectorIndex {
+  private vectors = new Map<string, VectorRecord>();
+
+  async upsert(vectors: VectorRecord[]) {
+    for (const vector of vectors) {
+      this.vectors.set(vector.id, vector);
+    }
+  }
+
+  async query(vector: number[], options: { topK: number; filter?: Record<string, string> }) {
+    const matches: VectorMatch[] = [...this.vectors.values()]
+      .filter((v) => matchesFilter(v.metadata, options.filter))
+      .map((v) => ({ id: v.id, score: cosineSimilarity(vector, v.values) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.topK);
+    return { matches };
+  }
+
+  async deleteByIds(ids: string[]) {
+    for (const id of ids) {
+      this.vectors.delete(id);
+    }
+  }
+}
+
+export class InMemoryChunkStore implements ChunkStore {
+  private chunks = new Map<string, StoredChunk>();
+
+  async upsert(chunks: StoredChunk[]) {
+    for (const documentId of new Set(chunks.map((c) => c.documentId))) {
+      await this.deleteDocument(documentId);
+    }
+    for (const chunk of chunks) {
+      this.chunks.set(chunk.id, chunk);
+    }
+  }
+
+  async deleteDocument(documentId: string) {
+    const ids = [...this.chunks.values()].filter((c) => c.documentId === documentId).map((c) => c.id);
+    for (const id of ids) {
+      this.chunks.delete(id);
+    }
+    return ids;
+  }
+
+  async getChunks(ids: string[]): Promise<KnowledgeChunk[]> {
+    return ids
+      .map((id) => this.chunks.get(id))
+      .filter((c): c is StoredChunk => c !== undefined)
+      .map((c) => ({
+        id: c.id,
+        documentId: c.documentId,
+        kind: c.kind,
+        source: c.source,
+        content: c.content,
+        metadata: c.metadata,
+      }));
+  }
+
+  async keywordCandidates(terms: string[], filter: SearchFilter): Promise<KeywordCandidates> {
+    const filtered = [...this.chunks.values()].filter(
+      (c) => (!filter.kind || c.kind === filter.kind) && (!filter.source || c.source === filter.source),
+    );
+    const documentFrequency: Record<string, number> = {};
+    for (const term of terms) {
+      documentFrequency[term] = filtered.filter((c) => c.termFrequencies[term]).length;
+    }
+    return {
+      chunkCount: filtered.length,
+      averageLength: filtered.reduce((sum, c) => sum + c.length, 0) / (filtered.length || 1),
+      documentFrequency,
+      chunks: filtered.filter((c) => terms.some((term) => c.termFrequencies[term])),
+    };
+  }
+}
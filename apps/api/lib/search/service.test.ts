@@ -0,0 +1,177 @@
+import { describe, expect, it } from "vitest";
+import { InMemoryChunkStore, InMemoryVectorIndex } from "./memory";
+import { SearchService } from "./service";
+import type { KnowledgeDocument } from "./types";
+
+// Embeddings keyed by the exact text; anything else points nowhere in particular.
+function searchService(embeddings: Record<string, number[]> = {}) {
+  return new SearchService({} as unknown as Env, {
+    vectors: new InMemoryVectorIndex(),
+    chunks: new InMemoryChunkStore(),
+    embed: async (text) => embeddings[text] ?? [0, 0, 1],
+  });
+}
+
+const DOCUMENTS: KnowledgeDocument[] = [
+  {
+    id: "forensic-1",
+    kind: "forensic",
+    source: "case-17",
+    content: "Water damage behind the shower wall.",
+  },
+  {
+    id: "regulation-1",
+    kind: "regulation",
+    source: "SF DBI",
+    content: "Shower walls need a water-resistant backer board.",
+  },
+  {
+    id: "regulation-2",
+    kind: "regulation",
+    source: "CBC",
+    content: "Water heaters need seismic strapping.",
+  },
+  {
+    id: "readme-1",
+    kind: "repo-readme",
+    source: "https://github.com/acme/plumbing",
+    content: "Water usage dashboard for plumbing contractors.",
+  },
+];
+
+async function ingestAll(service: SearchService) {
+  for (const document of DOCUMENTS) {
+    await service.ingest(document);
+  }
+}
+
+describe("SearchService", () => {
+  it("chunks documents and replaces them on re-ingest", async () => {
+    const service = new SearchService({} as unknown as Env, {
+      vectors: new InMemoryVectorIndex(),
+      chunks: new InMemoryChunkStore(),
+      embed: async () => [1, 0],
+      chunking: { maxChars: 30, overlap: 0 },
+    });
+    const document: KnowledgeDocument = {
+      id: "doc",
+      kind: "regulation",
+      source: "CBC",
+      content: "First paragraph here.\n\nSecond paragraph here.",
+    };
+
+    expect(await service.ingest(document)).toEqual({
+      documentId: "doc",
+      chunks: 2,
+    });
+    expect(
+      await service.ingest({ ...document, content: "Only paragraph." }),
+    ).toEqual({ documentId: "doc", chunks: 1 });
+    expect(await service.remove("doc")).toBe(1);
+  });
+
+  it("returns chunk text without index-only fields", async () => {
+    const service = searchService();
+    await ingestAll(service);
+
+    const [result] = await service.search("seismic strapping", 1);
+
+    expect(result).toEqual({
+      id: "regulation-2#0",
+      documentId: "regulation-2",
+      kind: "regulation",
+      source: "CBC",
+      content: "Water heaters need seismic strapping.",
+      metadata: undefined,
+      score: expect.any(Number),
+      vectorScore: expect.any(Number),
+      keywordScore: 1,
+    });
+  });
+
+  it.each([
+    ["forensic", ["forensic-1"]],
+    ["regulation", ["regulation-1", "regulation-2"]],
+    ["repo-readme", ["readme-1"]],
+  ] as const)("limits results to the %s kind", async (kind, documentIds) => {
+    const service = searchService();
+    await ingestAll(service);
+
+    const results = await service.search("water", 10, { kind });
+
+    expect(results.map((r) => r.documentId).sort()).toEqual(documentIds);
+  });
+
+  it("limits results to a source", async () => {
+    const service = searchService();
+    await ingestAll(service);
+
+    const results = await service.search("water", 10, { source: "SF DBI" });
+
+    expect(results.map((r) => r.documentId)).toEqual(["regulation-1"]);
+  });
+
+  describe("fusion", () => {
+    // "semantic" is close to the query but shares no term with it, "keyword"
+    // shares the term but points elsewhere, "both" has a bit of each.
+    const embeddings = {
+      "backflow preventer": [1, 0, 0],
+      "Devices that stop dirty water flowing back.": [1, 0, 0],
+      "Backflow test report.": [0, 1, 0],
+      "Backflow preventer install guide.": [0.8, 0.6, 0],
+    };
+    const documents: KnowledgeDocument[] = [
+      {
+        id: "semantic",
+        kind: "regulation",
+        source: "CBC",
+        content: "Devices that stop dirty water flowing back.",
+      },
+      {
+        id: "keyword",
+        kind: "regulation",
+        source: "CBC",
+        content: "Backflow test report.",
+      },
+      {
+        id: "both",
+        kind: "regulation",
+        source: "CBC",
+        content: "Backflow preventer install guide.",
+      },
+    ];
+
+    async function rank(vectorWeight?: number) {
+      const service = searchService(embeddings);
+      for (const document of documents) {
+        await service.ingest(document);
+      }
+      const results = await service.search("backflow preventer", 3, {
+        vectorWeight,
+      });
+      return results.map((r) => r.documentId);
+    }
+
+    it("ranks chunks found by both searches first", async () => {
+      expect(await rank()).toEqual(["both", "semantic", "keyword"]);
+    });
+
+    it("keeps keyword-only hits when the embedding misses them", async () => {
+      expect(await rank(0.2)).toEqual(["both", "keyword", "semantic"]);
+    });
+
+    it("normalizes both score lists to the best hit", async () => {
+      const service = searchService(embeddings);
+      for (const document of documents) {
+        await service.ingest(document);
+      }
+
+      const [best] = await service.search("backflow preventer", 1);
+
+      expect(best.documentId).toBe("both");
+      expect(best.keywordScore).toBe(1);
+      expect(best.vectorScore).toBeCloseTo(0.8);
+      expect(best.score).toBeCloseTo(0.6 * 0.8 + 0.4 * 1);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Hybrid (vector + BM25) search over the knowledge base.
+ *
+ * Ingesting a document chunks it, embeds every chunk with `generateEmbedding`,
+ * upserts the embeddings into the vector index with `kind` and `source` as
+ * metadata, and stores the chunk text and term frequencies in the chunk store.
+ *
+ * A search embeds the query and asks the vector index for the nearest chunks,
+ * scores the chunks containing the query's terms with BM25, and fuses the two:
+ * each score list is divided by its best score and the results are ranked by
+ * `vectorWeight * vector + (1 - vectorWeight) * keyword`. A chunk that only one
+ * side found still ranks, so exact identifiers (a regulation code, a package
+ * name) are found even when the embedding misses them.
+ *
+ * The vector index is the `VECTORIZE` binding and the chunk store is D1. The
+ * binding needs metadata indexes on `kind` and `source` for filtering:
+ *
+ *   wrangler vectorize create-metadata-index <index> --property-name=kind --type=string
+ *   wrangler vectorize create-metadata-index <index> --property-name=source --type=string
+ *
+ * Without a `VECTORIZE` binding (local development) both live in memory, in
+ * the isolate. Tests pass their own stores and embedding function.
+ */
+
+import * as schema from "../db/schema/knowledge";
+import { scoreBm25, termFrequencies, tokenize } from "./bm25";
+import { chunkText, type ChunkOptions } from "./chunking";
+import { InMemoryChunkStore, InMemoryVectorIndex } from "./memory";
+import type {
+  ChunkStore,
+  KnowledgeDocument,
+  SearchFilter,
+  SearchResult,
+  StoredChunk,
+  VectorIndex,
+} from "./types";
+
+export interface SearchServiceOptions {
+  vectors?: VectorIndex;
+  chunks?: ChunkStore;
+  embed?: (text: string) => Promise<number[]>;
+  chunking?: ChunkOptions;
+}
+
+export interface SearchOptions extends SearchFilter {
+  /** Weight of the vector score in the fused score; the keyword score gets the rest. */
+  vectorWeight?: number;
+}
+
+const DEFAULT_VECTOR_WEIGHT = 0.6;
+
+// Nearest neighbours fetched per wanted result, so fusion has candidates to re-rank.
+const CANDIDATES_PER_RESULT = 4;
+// Vectorize's topK limit.
+const MAX_VECTOR_CANDIDATES = 100;
+
+// Shared by every SearchService of the isolate that runs without Vectorize.
+let localIndex: { vectors: VectorIndex; chunks: ChunkStore } | undefined;
+
+function d1ChunkStore(env: Env): ChunkStore {
+  return {
+    upsert: (chunks) => schema.upsertKnowledgeChunks(env, chunks),
+    deleteDocument: (documentId) => schema.deleteKnowledgeDocument(env, documentId),
+    getChunks: (ids) => schema.getKnowledgeChunks(env, ids),
+    keywordCandidates: (terms, filter) => schema.getKeywordCandidates(env, terms, filter),
+  };
+}
+
+// Divides every score by the best one, so both lists range up to 1.
+function normalize(scores: Map<string, number>): Map<string, number> {
+  const best = Math.max(0, ...scores.values());
+  if (best === 0) return new Map();
+  return new Map([...scores].map(([id, score]) => [id, Math.max(0, score) / best]));
+}
+
+export class SearchService {
+  private vectors: VectorIndex;
+  private chunks: ChunkStore;
+  private embed: (text: string) => Promise<number[]>;
+  private chunking: ChunkOptions;
+
+  constructor(env: Env, options: SearchServiceOptions = {}) {
+    const binding = (env as Env & { VECTORIZE?: VectorIndex }).VECTORIZE;
+    if (!binding && !(options.vectors && options.chunks)) {
+      localIndex ??= { vectors: new InMemoryVectorIndex(), chunks: new InMemoryChunkStore() };
+    }
+    this.vectors = options.vectors ?? binding ?? localIndex!.vectors;
+    this.chunks = options.chunks ?? (binding ? d1ChunkStore(env) : localIndex!.chunks);
+    // Workers AI is only loaded when no embedding function is passed in.
+    this.embed =
+      options.embed ??
+      (async (text) => (await import("../ai/providers/worker-ai")).generateEmbedding(env, text));
+    this.chunking = options.chunking ?? {};
+  }
+
+  /**
+   * Indexes a document, replacing any earlier version with the same id.
+   */
+  async ingest(document: KnowledgeDocument): Promise<{ documentId: string; chunks: number }> {
+    const texts = chunkText(document.content, this.chunking);
+    const chunks: StoredChunk[] = texts.map((content, i) => {
+      const terms = tokenize(content);
+      return {
+        id: `${document.id}#${i}`,
+        documentId: document.id,
+        kind: document.kind,
+        source: document.source,
+        content,
+        metadata: document.metadata,
+        length: terms.length,
+        termFrequencies: termFrequencies(terms),
+      };
+    });
+
+    const vectors = [];
+    for (const chunk of chunks) {
+      vectors.push({
+        id: chunk.id,
+        values: await this.embed(chunk.content),
+        metadata: { documentId: document.id, kind: document.kind, source: document.source },
+      });
+    }
+
+    // A shorter new version leaves vectors of the old one's extra chunks behind unless they are deleted.
+    const previous = await this.chunks.deleteDocument(document.id);
+    const stale = previous.filter((id) => !chunks.some((c) => c.id === id));
+    if (stale.length > 0) await this.vectors.deleteByIds(stale);
+
+    if (vectors.length > 0) await this.vectors.upsert(vectors);
+    await this.chunks.upsert(chunks);
+    return { documentId: document.id, chunks: chunks.length };
+  }
+
+  /**
+   * Removes a document from the index and returns how many chunks it had.
+   */
+  async remove(documentId: string): Promise<number> {
+    const ids = await this.chunks.deleteDocument(documentId);
+    if (ids.length > 0) await this.vectors.deleteByIds(ids);
+    return ids.length;
+  }
+
+  async search(query: string, limit = 5, options: SearchOptions = {}): Promise<SearchResult[]> {
+    const { vectorWeight = DEFAULT_VECTOR_WEIGHT, ...filter } = options;
+    const metadataFilter: Record<string, string> = {};
+    if (filter.kind) metadataFilter.kind = filter.kind;
+    if (filter.source) metadataFilter.source = filter.source;
+
+    const { matches } = await this.vectors.query(await this.embed(query), {
+      topK: Math.min(limit * CANDIDATES_PER_RESULT, MAX_VECTOR_CANDIDATES),
+      filter: Object.keys(metadataFilter).length > 0 ? metadataFilter : undefined,
+    });
+    const vectorScores = normalize(new Map(matches.map((m) => [m.id, m.score])));
+
+    const queryTerms = [...new Set(tokenize(query))];
+    const keywordScores = normalize(scoreBm25(queryTerms, await this.chunks.keywordCandidates(queryTerms, filter)));
+
+    const ranked = [...new Set([...vectorScores.keys(), ...keywordScores.keys()])]
+      .map((id) => {
+        const vectorScore = vectorScores.get(id) ?? 0;
+        const keywordScore = keywordScores.get(id) ?? 0;
+        return { id, vectorScore, keywordScore, score: vectorWeight * vectorScore + (1 - vectorWeight) * keywordScore };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    const chunks = new Map((await this.chunks.getChunks(ranked.map((r) => r.id))).map((c) => [c.id, c]));
+    return ranked
+      .filter((r) => chunks.has(r.id))
+      .map((r) => ({ ...chunks.get(r.id)!, ...r }));
+  }
+}
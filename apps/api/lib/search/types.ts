@@ -0,0 +1,97 @@
+/**
+ * Types shared by the hybrid search subsystem.
+ *
+ * A document is split into chunks; each chunk is stored twice: as an embedding
+ * in a vector index (Cloudflare Vectorize, or InMemoryVectorIndex) and as text
+ * with its term frequencies in a chunk store (D1, or InMemoryChunkStore) for
+ * BM25 keyword scoring and for returning the text itself.
+ */
+
+export const KNOWLEDGE_KINDS = ["forensic", "regulation", "repo-readme", "repo-analysis"] as const;
+export type KnowledgeKind = (typeof KNOWLEDGE_KINDS)[number];
+
+export interface KnowledgeDocument {
+  /** Stable id; ingesting the same id again replaces the document. */
+  id: string;
+  kind: KnowledgeKind;
+  /** Where the text comes from, e.g. a regulation code or a repo URL. */
+  source: string;
+  content: string;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface SearchFilter {
+  kind?: KnowledgeKind;
+  source?: string;
+}
+
+export interface KnowledgeChunk {
+  /** `<documentId>#<index>`. */
+  id: string;
+  documentId: string;
+  kind: KnowledgeKind;
+  source: string;
+  content: string;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface SearchResult extends KnowledgeChunk {
+  /** Fused score in [0, 1]. */
+  score: number;
+  vectorScore: number;
+  keywordScore: number;
+}
+
+// --- Vector index ---
+
+export interface VectorRecord {
+  id: string;
+  values: number[];
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface VectorMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * The part of the Vectorize binding the search uses, so a Vectorize index can
+ * be passed as is. Filters are equality filters on metadata fields.
+ */
+export interface VectorIndex {
+  upsert(vectors: VectorRecord[]): Promise<unknown>;
+  query(
+    vector: number[],
+    options: { topK: number; filter?: Record<string, string> },
+  ): Promise<{ matches: VectorMatch[] }>;
+  deleteByIds(ids: string[]): Promise<unknown>;
+}
+
+// --- Chunk store ---
+
+export interface StoredChunk extends KnowledgeChunk {
+  /** Number of terms in the chunk. */
+  length: number;
+  termFrequencies: Record<string, number>;
+}
+
+/**
+ * What BM25 needs for one query: corpus statistics for the filtered chunks and
+ * the chunks that contain at least one query term.
+ */
+export interface KeywordCandidates {
+  chunkCount: number;
+  averageLength: number;
+  documentFrequency: Record<string, number>;
+  chunks: { id: string; length: number; termFrequencies: Record<string, number> }[];
+}
+
+export interface ChunkStore {
+  /** Replaces all chunks of the documents the given chunks belong to. */
+  upsert(chunks: StoredChunk[]): Promise<void>;
+  /** Removes a document's chunks and returns their ids. */
+  deleteDocument(documentId: string): Promise<string[]>;
+  getChunks(ids: string[]): Promise<KnowledgeChunk[]>;
+  keywordCandidates(terms: string[], filter: SearchFilter): Promise<KeywordCandidates>;
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import type { RepoHealthMetrics } from "./agents/tools/github/types";
+import {
+  diffSnapshots,
+  majorVersion,
+  type RepoWatchSnapshot,
+} from "./watchlist-diff";
+
+const DAY = 86_400_000;
+const NOW = Date.parse("2025-06-01T00:00:00Z");
+
+function snapshot(
+  overrides: Partial<RepoWatchSnapshot> = {},
+): RepoWatchSnapshot {
+  return {
+    archived: false,
+    lastCommitAt: new Date(NOW - 10 * DAY).toISOString(),
+    latestRelease: { tag: "v1.4.0", publishedAt: null },
+    license: "MIT",
+    stars: 100,
+    health: {} as RepoHealthMetrics,
+    ...overrides,
+  };
+}
+
+describe("majorVersion", () => {
+  it.each([
+    ["v2.1.0", 2],
+    ["2.0", 2],
+    ["v10", 10],
+    ["pkg@3.0.0", 3],
+    ["@scope/pkg@v4.1.2", 4],
+  ])("reads %s as major %i", (tag, major) => {
+    expect(majorVersion(tag)).toBe(major);
+  });
+
+  it.each(["nightly", "release-2024-01", "v1beta"])("is null for %s", (tag) => {
+    expect(majorVersion(tag)).toBeNull();
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("reports nothing for an unchanged repo", () => {
+    expect(
+      diffSnapshots(snapshot(), snapshot({ stars: 150 }), NOW - DAY, NOW),
+    ).toEqual([]);
+  });
+
+  it("reports archiving and unarchiving", () => {
+    const archived = snapshot({ archived: true });
+
+    expect(
+      diffSnapshots(snapshot(), archived, NOW - DAY, NOW).map((c) => c.kind),
+    ).toEqual(["archived"]);
+    expect(
+      diffSnapshots(archived, snapshot(), NOW - DAY, NOW).map((c) => c.kind),
+    ).toEqual(["unarchived"]);
+  });
+
+  it("reports a repo going quiet once, when it crosses the threshold", () => {
+    const lastCommitAt = new Date(NOW - 181 * DAY).toISOString();
+    const previous = snapshot({ lastCommitAt });
+    const current = snapshot({ lastCommitAt });
+
+    // Checked two days ago, the same last commit was 179 days old.
+    const changes = diffSnapshots(previous, current, NOW - 2 * DAY, NOW);
+    expect(changes).toEqual([
+      expect.objectContaining({
+        kind: "went_quiet",
+        previous: lastCommitAt,
+        current: lastCommitAt,
+      }),
+    ]);
+
+    // By the next check it was already quiet, so nothing new.
+    expect(diffSnapshots(current, current, NOW, NOW + DAY)).toEqual([]);
+  });
+
+  it("reports only major version bumps", () => {
+    const minor = snapshot({
+      latestRelease: { tag: "v1.5.0", publishedAt: null },
+    });
+    const major = snapshot({
+      latestRelease: { tag: "v2.0.0", publishedAt: null },
+    });
+
+    expect(diffSnapshots(snapshot(), minor, NOW - DAY, NOW)).toEqual([]);
+    expect(diffSnapshots(snapshot(), major, NOW - DAY, NOW)).toEqual([
+      {
+        kind: "major_release",
+        summary: "New major release v2.0.0 (was v1.4.0).",
+        previous: { tag: "v1.4.0", publishedAt: null },
+        current: { tag: "v2.0.0", publishedAt: null },
+      },
+    ]);
+  });
+
+  it("ignores first releases and tags without a version", () => {
+    const unversioned = snapshot({
+      latestRelease: { tag: "nightly", publishedAt: null },
+    });
+
+    expect(
+      diffSnapshots(
+        snapshot({ latestRelease: null }),
+        snapshot(),
+        NOW - DAY,
+        NOW,
+      ),
+    ).toEqual([]);
+    expect(diffSnapshots(unversioned, snapshot(), NOW - DAY, NOW)).toEqual([]);
+  });
+
+  it("reports license changes, including a removed license", () => {
+    const changes = diffSnapshots(
+      snapshot(),
+      snapshot({ license: null }),
+      NOW - DAY,
+      NOW,
+    );
+
+    expect(changes).toEqual([
+      {
+        kind: "license_changed",
+        summary: "License changed from MIT to none.",
+        previous: "MIT",
+        current: null,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @file Watchlist snapshots and the changes between two of them.
+ *
+ * Kept apart from lib/watchlist.ts, which collects snapshots from GitHub and
+ * stores them, so the diffing has no I/O.
+ */
+
+import type { RepoHealthMetrics } from "./agents/tools/github/types";
+
+// A repo with no commit on its default branch for this long has gone quiet.
+const QUIET_AFTER_DAYS = 180;
+
+export const CHANGE_KINDS = [
+  "archived",
+  "unarchived",
+  "went_quiet",
+  "major_release",
+  "license_changed",
+] as const;
+export type ChangeKind = (typeof CHANGE_KINDS)[number];
+
+export interface RepoWatchSnapshot {
+  archived: boolean;
+  lastCommitAt: string | null;
+  latestRelease: { tag: string; publishedAt: string | null } | null;
+  license: string | null;
+  stars: number;
+  health: RepoHealthMetrics;
+}
+
+export interface RepoChange {
+  kind: ChangeKind;
+  summary: string;
+  previous: unknown;
+  current: unknown;
+}
+
+/**
+ * The major version of a release tag: "v2.1.0" -> 2, "pkg@3.0.0" -> 3.
+ * Null for tags that do not start with a version number.
+ */
+export function majorVersion(tag: string): number | null {
+  const match = tag
+    .split("@")
+    .pop()!
+    .match(/^v?(\d+)(?:\.|$)/);
+  return match ? Number(match[1]) : null;
+}
+
+function isQuiet(lastCommitAt: string | null, now: number): boolean {
+  return (
+    !!lastCommitAt &&
+    now - Date.parse(lastCommitAt) > QUIET_AFTER_DAYS * 86_400_000
+  );
+}
+
+/**
+ * The changes between two snapshots of the same repository. Whether the repo
+ * had gone quiet is judged as of the time each snapshot was taken.
+ */
+export function diffSnapshots(
+  previous: RepoWatchSnapshot,
+  current: RepoWatchSnapshot,
+  previousCheckedAt: number,
+  now = Date.now(),
+): RepoChange[] {
+  const changes: RepoChange[] = [];
+
+  if (!previous.archived && current.archived) {
+    changes.push({
+      kind: "archived",
+      summary: "The repository was archived.",
+      previous: false,
+      current: true,
+    });
+  }
+  if (previous.archived && !current.archived) {
+    changes.push({
+      kind: "unarchived",
+      summary: "The repository was unarchived.",
+      previous: true,
+      current: false,
+    });
+  }
+
+  if (
+    !isQuiet(previous.lastCommitAt, previousCheckedAt) &&
+    isQuiet(current.lastCommitAt, now)
+  ) {
+    changes.push({
+      kind: "went_quiet",
+      summary: `No commits on the default branch for over ${QUIET_AFTER_DAYS} days (last commit ${current.lastCommitAt}).`,
+      previous: previous.lastCommitAt,
+      current: current.lastCommitAt,
+    });
+  }
+
+  const previousMajor = previous.latestRelease
+    ? majorVersion(previous.latestRelease.tag)
+    : null;
+  const currentMajor = current.latestRelease
+    ? majorVersion(current.latestRelease.tag)
+    : null;
+  if (
+    previousMajor !== null &&
+    currentMajor !== null &&
+    currentMajor > previousMajor
+  ) {
+    changes.push({
+      kind: "major_release",
+      summary: `New major release ${current.latestRelease!.tag} (was ${previous.latestRelease!.tag}).`,
+      previous: previous.latestRelease,
+      current: current.latestRelease,
+    });
+  }
+
+  if (previous.license !== current.license) {
+    changes.push({
+      kind: "license_changed",
+      summary: `License changed from ${previous.license ?? "none"} to ${current.license ?? "none"}.`,
+      previous: previous.license,
+      current: current.license,
+    });
+  }
+
+  return changes;
+}
@@ -0,0 +1,286 @@
+/**
+ * @file Watchlist: scheduled re-checks of favorited repositories.
+ *
+ * Every run walks the repos that are an active favorite of at least one user,
+ * collects a fresh snapshot (archived flag, last commit, latest release,
+ * license, stars and health metrics), diffs it against the previous snapshot
+ * and records a change event for each difference worth knowing about. New
+ * events are emailed to the users who favorited the repo.
+ *
+ * The fresh metrics (stars, health) are written onto the repo's latest cached
+ * analysis. The analysis text itself is not regenerated here, since that takes
+ * a model call per repo; the next search that reaches the repo re-analyzes it
+ * once its HEAD has moved or the cached analysis is past its TTL.
+ * Failures are recorded as agent events, like agent errors.
+ */
+
+import { and, asc, desc, eq, inArray, isNull } from "drizzle-orm";
+import {
+  favorites,
+  repoAnalysisCache,
+  repoChangeEvents,
+  repoWatchSnapshots,
+} from "../../../db/schema";
+import { getOctokit } from "./client/github/octokit/core";
+import { collectRepoHealth } from "./agents/tools/github/metrics";
+import type { AppContext } from "./context";
+import { appendAgentEvent, type AgentEventInput } from "./db/schema";
+import { sendEmail } from "./email";
+import { diffSnapshots, type RepoWatchSnapshot } from "./watchlist-diff";
+
+export { CHANGE_KINDS, type ChangeKind } from "./watchlist-diff";
+
+type Database = AppContext["Variables"]["db"];
+
+// Each repo costs about five GitHub requests; stay well inside a cron invocation's subrequest limit.
+const MAX_REPOS_PER_RUN = 50;
+
+export interface WatchlistRunResult {
+  checked: number;
+  failed: number;
+  events: number;
+  emailed: number;
+}
+
+async function appendWatchlistEvent(
+  env: Env,
+  event: Omit<AgentEventInput, "agent" | "role">,
+) {
+  try {
+    await appendAgentEvent(env, {
+      agent: "Watchlist",
+      role: "system",
+      ...event,
+    });
+  } catch (e) {
+    // The event log is on another database; a failure there must not end the run.
+    console.error(`${event.content} (event log unavailable)`, event.error, e);
+  }
+}
+
+export async function logWatchlistError(
+  env: Env,
+  content: string,
+  error: unknown,
+) {
+  await appendWatchlistEvent(env, {
+    content,
+    actionType: "ERROR",
+    status: "FAILURE",
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
+
+export async function logWatchlistRun(env: Env, result: WatchlistRunResult) {
+  await appendWatchlistEvent(env, {
+    content: `Watchlist run finished: ${result.checked} checked, ${result.failed} failed, ${result.events} changes, ${result.emailed} emails.`,
+    metadataJson: JSON.stringify(result),
+  });
+}
+
+function parseRepoUrl(repoUrl: string): { owner: string; repo: string } {
+  const [owner, repo] = repoUrl
+    .replace(/^https?:\/\/github\.com\//, "")
+    .split("/");
+  return { owner, repo };
+}
+
+/**
+ * Collects the current snapshot of a repository.
+ */
+export async function collectWatchSnapshot(
+  env: Env,
+  repoUrl: string,
+): Promise<RepoWatchSnapshot> {
+  const { owner, repo } = parseRepoUrl(repoUrl);
+  const octokit = getOctokit(env);
+
+  const [{ data: details }, health, latestRelease] = await Promise.all([
+    octokit.rest.repos.get({ owner, repo }),
+    collectRepoHealth(env, owner, repo),
+    octokit.rest.repos
+      .getLatestRelease({ owner, repo })
+      .then(({ data }) => ({
+        tag: data.tag_name,
+        publishedAt: data.published_at,
+      }))
+      .catch((e: unknown) => {
+        // 404 means the repo has never published a release.
+        if (typeof e === "object" && e && "status" in e && e.status === 404) {
+          return null;
+        }
+        throw e;
+      }),
+  ]);
+
+  return {
+    archived: details.archived,
+    lastCommitAt: health.lastCommitAt,
+    latestRelease,
+    license: details.license?.spdx_id ?? null,
+    stars: details.stargazers_count,
+    health,
+  };
+}
+
+/**
+ * Refreshes one repository: stores the new snapshot, records its changes and
+ * updates the metrics (not the analysis text) of the repo's most recent cached analysis.
+ */
+async function checkRepo(
+  env: Env,
+  db: Database,
+  repoUrl: string,
+): Promise<number> {
+  const current = await collectWatchSnapshot(env, repoUrl);
+  const stored = await db.query.repoWatchSnapshots.findFirst({
+    where: eq(repoWatchSnapshots.repoUrl, repoUrl),
+  });
+
+  const changes = stored
+    ? diffSnapshots(
+        stored.snapshot as RepoWatchSnapshot,
+        current,
+        stored.checkedAt.getTime(),
+      )
+    : [];
+  if (changes.length > 0) {
+    await db
+      .insert(repoChangeEvents)
+      .values(changes.map((change) => ({ repoUrl, ...change })));
+  }
+
+  await db
+    .insert(repoWatchSnapshots)
+    .values({ repoUrl, snapshot: current })
+    .onConflictDoUpdate({
+      target: repoWatchSnapshots.repoUrl,
+      set: { snapshot: current, checkedAt: new Date() },
+    });
+
+  const latestAnalysis = await db.query.repoAnalysisCache.findFirst({
+    where: eq(repoAnalysisCache.repoUrl, repoUrl),
+    orderBy: [desc(repoAnalysisCache.analyzedAt)],
+  });
+  if (latestAnalysis) {
+    await db
+      .update(repoAnalysisCache)
+      .set({ stars: current.stars, health: current.health })
+      .where(eq(repoAnalysisCache.id, latestAnalysis.id));
+  }
+
+  return changes.length;
+}
+
+/**
+ * Emails every change event not yet notified to the users who favorited the
+ * repo, one email per user. Events are marked notified even if an email fails,
+ * so a broken mail setup does not resend the backlog on every run.
+ */
+async function notifyChanges(env: Env, db: Database): Promise<number> {
+  const pending = await db.query.repoChangeEvents.findMany({
+    where: isNull(repoChangeEvents.notifiedAt),
+    orderBy: [asc(repoChangeEvents.detectedAt)],
+  });
+  if (pending.length === 0) {
+    return 0;
+  }
+
+  const watchers = await db.query.favorites.findMany({
+    where: and(
+      eq(favorites.isActive, true),
+      inArray(favorites.repoUrl, [...new Set(pending.map((e) => e.repoUrl))]),
+    ),
+    with: { user: true },
+  });
+
+  const byEmail = new Map<string, typeof pending>();
+  for (const watcher of watchers) {
+    if (!watcher.user?.email) continue;
+    const events = byEmail.get(watcher.user.email) ?? [];
+    events.push(...pending.filter((e) => e.repoUrl === watcher.repoUrl));
+    byEmail.set(watcher.user.email, events);
+  }
+
+  let emailed = 0;
+  for (const [email, events] of byEmail) {
+    const text = [
+      "Changes were detected in repositories you favorited:",
+      "",
+      ...events.map((e) => `- ${e.repoUrl}: ${e.summary}`),
+    ].join("\n");
+    try {
+      await sendEmail(env, {
+        to: email,
+        subject: `${events.length} change${events.length === 1 ? "" : "s"} in your favorited repositories`,
+        text,
+      });
+      emailed++;
+    } catch (error) {
+      await logWatchlistError(
+        env,
+        `Watchlist email to ${email} failed.`,
+        error,
+      );
+    }
+  }
+
+  await db
+    .update(repoChangeEvents)
+    .set({ notifiedAt: new Date() })
+    .where(
+      inArray(
+        repoChangeEvents.id,
+        pending.map((e) => e.id),
+      ),
+    );
+  return emailed;
+}
+
+/**
+ * One watchlist run: re-checks the least recently checked favorited repos and
+ * emails what changed.
+ */
+export async function runWatchlist(
+  env: Env,
+  db: Database,
+): Promise<WatchlistRunResult> {
+  const watched = await db
+    .selectDistinct({ repoUrl: favorites.repoUrl })
+    .from(favorites)
+    .where(eq(favorites.isActive, true));
+
+  const snapshots = await db.query.repoWatchSnapshots.findMany({
+    columns: { repoUrl: true, checkedAt: true },
+  });
+  const lastChecked = new Map<string, number>(
+    snapshots.map((s) => [s.repoUrl, s.checkedAt.getTime()]),
+  );
+  const due = watched
+    .map((w) => w.repoUrl)
+    .sort((a, b) => (lastChecked.get(a) ?? 0) - (lastChecked.get(b) ?? 0))
+    .slice(0, MAX_REPOS_PER_RUN);
+
+  const result: WatchlistRunResult = {
+    checked: 0,
+    failed: 0,
+    events: 0,
+    emailed: 0,
+  };
+  for (const repoUrl of due) {
+    try {
+      result.events += await checkRepo(env, db, repoUrl);
+      result.checked++;
+    } catch (error) {
+      result.failed++;
+      await logWatchlistError(
+        env,
+        `Watchlist check of ${repoUrl} failed.`,
+        error,
+      );
+    }
+  }
+
+  result.emailed = await notifyChanges(env, db);
+  return result;
+}
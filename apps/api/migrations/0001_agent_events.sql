@@ -0,0 +1,23 @@
+-- D1 table behind lib/db/schema/requests.ts `agentEvents`.
+-- Command: bun wrangler d1 migrations apply <database> [--env <env>]
+CREATE TABLE `agent_events` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`request_id` text,
+	`agent` text NOT NULL,
+	`role` text NOT NULL,
+	`content` text NOT NULL,
+	`original_length` integer,
+	`action_type` text DEFAULT 'MESSAGE' NOT NULL,
+	`tool_name` text,
+	`tool_args_json` text,
+	`provider` text,
+	`model` text,
+	`latency_ms` integer,
+	`input_tokens` integer,
+	`output_tokens` integer,
+	`cost_usd` real,
+	`status` text DEFAULT 'SUCCESS' NOT NULL,
+	`error` text,
+	`metadata_json` text,
+	`createdAt` integer DEFAULT (unixepoch()) NOT NULL
+);
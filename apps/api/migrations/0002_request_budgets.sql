@@ -0,0 +1,9 @@
+-- D1 table behind lib/db/schema/requests.ts `requestBudgets`.
+-- Command: bun wrangler d1 migrations apply <database> [--env <env>]
+CREATE TABLE `request_budgets` (
+	`request_id` text PRIMARY KEY NOT NULL,
+	`limits_json` text NOT NULL,
+	`github_calls` integer DEFAULT 0 NOT NULL,
+	`started_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`exhausted_reason` text
+);
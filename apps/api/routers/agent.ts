@@ -1,9 +1,16 @@
 
 import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
 import { z } from "zod";
-import { githubRequests, hitlReviews, sessions, repoAnalysis } from "../../../db/schema";
-import { eq, and } from "drizzle-orm";
+import { githubRequests, hitlReviews, sessions, repoAnalysis, searchConfigs, reports, chatMessages } from "../../../db/schema";
+import { eq, and, or, gte, lte, lt, ilike, inArray, asc, desc, type SQL } from "drizzle-orm";
 import { AppContext } from "../lib/context";
+import { applySearchConfigOverrides, resolveSearchConfig, searchConfigSchema, type ResolvedSearchConfig, type SearchConfigOptions } from "../lib/agents/core/search-config";
+import * as schema from "../lib/db/schema";
+import { createSSEStream, getSSEHeaders, type StreamEvent } from "../lib/ai/utils/streaming";
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, renderReport, reportTitle, type ReportFormat } from "../lib/reports";
+import type { RepoHealthMetrics } from "../lib/agents/tools/github/types";
+import { loadRepoCuration } from "../lib/favorites";
+import { tagSummarySchema } from "./favorites";
 
 const app = new OpenAPIHono<AppContext>();
 
@@ -12,20 +19,14 @@ const searchRequestSchema = z.object({
         description: "The natural language query for the GitHub search.",
         example: "Find me the best Cloudflare Worker libraries for authentication.",
     }),
-    config: z.object({
-        search_base: z.string().optional().openapi({
-            description: "The base search pool to use.",
-            example: "CLOUDFLARE_WORKER",
-        }),
-        min_stars: z.number().optional().openapi({
-            description: "The minimum number of stars a repository must have.",
-            example: 100,
-        }),
-        language: z.string().optional().openapi({
-            description: "The primary programming language of the repository.",
-            example: "typescript",
-        }),
-    }).optional(),
+    searchConfig: z.string().optional().openapi({
+        description: "The name or ID of a saved search configuration. Defaults to the default configuration.",
+        example: "cloudflare-workers",
+    }),
+    config: searchConfigSchema.optional().openapi({
+        description: "Per-request overrides of the search configuration.",
+        example: { search_base: "CLOUDFLARE_WORKER", min_stars: 100, language: "typescript" },
+    }),
 });
 
 const searchRoute = createRoute({
@@ -52,6 +53,9 @@ const searchRoute = createRoute({
                 },
             },
         },
+        404: {
+            description: "The named search configuration does not exist.",
+        },
     },
     operationId: "agentSearch",
     summary: "Initiate a new agentic GitHub search.",
@@ -59,12 +63,23 @@ const searchRoute = createRoute({
 
 
 app.openapi(searchRoute, async (c) => {
-    const { query, config } = c.req.valid("json");
+    const { query, searchConfig, config } = c.req.valid("json");
     const requestId = crypto.randomUUID();
     const db = c.get("db");
     let session = c.get("session");
     const orchestratorBinding = c.env.ORCHESTRATOR;
 
+    const storedConfig = await db.query.searchConfigs.findFirst({
+        where: searchConfig
+            ? or(eq(searchConfigs.id, searchConfig), eq(searchConfigs.name, searchConfig))
+            : eq(searchConfigs.isDefault, true),
+    });
+    if (searchConfig && !storedConfig) {
+        return c.json({ error: `Search configuration "${searchConfig}" not found` }, 404);
+    }
+    // The resolved config is what the run uses, so it is also what gets recorded on the request.
+    const resolvedConfig = resolveSearchConfig(storedConfig, config);
+
     if (!session) {
         const newSessionId = crypto.randomUUID();
         await db.insert(sessions).values({ id: newSessionId });
@@ -75,7 +90,7 @@ app.openapi(searchRoute, async (c) => {
     await db.insert(githubRequests).values({
         id: requestId,
         query,
-        config: config ?? {},
+        config: resolvedConfig,
         sessionId: session.id,
     });
 
@@ -83,7 +98,7 @@ app.openapi(searchRoute, async (c) => {
         orchestratorBinding.idFromName(requestId),
     );
 
-    c.executionCtx.waitUntil(orchestrator.start(requestId, query, config));
+    c.executionCtx.waitUntil(orchestrator.start(requestId, query, resolvedConfig));
 
     return c.json({
         message: "Search initiated",
@@ -92,6 +107,226 @@ app.openapi(searchRoute, async (c) => {
 });
 
 
+// POST /agent/search/{requestId}/cancel|pause|resume
+const searchControlParams = z.object({
+    requestId: z.string().openapi({
+        description: "The ID of the search request.",
+    }),
+});
+
+const searchControlResponses = {
+    200: {
+        description: "The orchestrator accepted the signal.",
+        content: {
+            "application/json": {
+                schema: z.object({
+                    message: z.string(),
+                    requestId: z.string(),
+                }),
+            },
+        },
+    },
+    404: {
+        description: "The search request does not exist.",
+    },
+    409: {
+        description: "The search is not in a state that accepts this signal.",
+    },
+};
+
+const cancelSearchRoute = createRoute({
+    method: "post",
+    path: "/search/{requestId}/cancel",
+    request: { params: searchControlParams },
+    responses: searchControlResponses,
+    operationId: "cancelSearch",
+    summary: "Cancel a running search and abort its analysts.",
+});
+
+const pauseSearchRoute = createRoute({
+    method: "post",
+    path: "/search/{requestId}/pause",
+    request: { params: searchControlParams },
+    responses: searchControlResponses,
+    operationId: "pauseSearch",
+    summary: "Pause a running search at its current phase.",
+});
+
+const resumeSearchRoute = createRoute({
+    method: "post",
+    path: "/search/{requestId}/resume",
+    request: { params: searchControlParams },
+    responses: searchControlResponses,
+    operationId: "resumeSearch",
+    summary: "Resume a paused search.",
+});
+
+app.openapi(cancelSearchRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, requestId),
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const orchestrator = c.env.ORCHESTRATOR.get(c.env.ORCHESTRATOR.idFromName(requestId));
+    try {
+        await orchestrator.cancel(requestId);
+    } catch (e: unknown) {
+        return c.json({ error: e instanceof Error ? e.message : String(e) }, 409);
+    }
+    return c.json({ message: "Search cancelled", requestId });
+});
+
+app.openapi(pauseSearchRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, requestId),
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const orchestrator = c.env.ORCHESTRATOR.get(c.env.ORCHESTRATOR.idFromName(requestId));
+    try {
+        await orchestrator.pause(requestId);
+    } catch (e: unknown) {
+        return c.json({ error: e instanceof Error ? e.message : String(e) }, 409);
+    }
+    return c.json({ message: "Search paused", requestId });
+});
+
+app.openapi(resumeSearchRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    // The pause was just written, so the cached connection may still report the old status.
+    const db = c.get("dbDirect");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, requestId),
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+    if (request.status !== "paused") {
+        return c.json({ error: "Search is not paused." }, 409);
+    }
+
+    // Resuming runs the remaining phases, so it is not awaited here.
+    const orchestrator = c.env.ORCHESTRATOR.get(c.env.ORCHESTRATOR.idFromName(requestId));
+    c.executionCtx.waitUntil(orchestrator.resume(requestId));
+    return c.json({ message: "Search resumed", requestId });
+});
+
+
+// GET /agent/search/{requestId}/events
+// Statuses after which a search produces no more events.
+const FINAL_SEARCH_STATUSES = new Set(["completed", "budget_exhausted", "cancelled", "error"]);
+// A search resting here only moves on after a user action (resume, HITL reviews); the client reconnects then.
+const RESTING_SEARCH_STATUSES = new Set(["paused", "hitl"]);
+const SEARCH_EVENTS_POLL_MS = 2000;
+
+// A request_logs row as an SSE event; status transitions are logged with level "status".
+function toSearchEvent(log: { id: number, level: string, message: string, dataJson: string | null, createdAt: Date }): StreamEvent {
+    const data = log.dataJson ? JSON.parse(log.dataJson) : undefined;
+    if (log.level === "status") {
+        return { id: String(log.id), type: "status", message: log.message, data };
+    }
+    return {
+        id: String(log.id),
+        type: "log",
+        message: log.message,
+        data: { level: log.level, loggedAt: log.createdAt.toISOString(), data },
+    };
+}
+
+const searchEventsRoute = createRoute({
+    method: "get",
+    path: "/search/{requestId}/events",
+    request: { params: searchControlParams },
+    responses: {
+        200: {
+            description: "A text/event-stream of the search's log, status and progress events. Past events are replayed first; a Last-Event-ID header resumes after that event. The stream ends with a complete event carrying the status once the search finishes, or is paused or waiting for HITL reviews.",
+            content: {
+                "text/event-stream": {
+                    schema: z.string(),
+                },
+            },
+        },
+        404: {
+            description: "The search request does not exist.",
+        },
+    },
+    operationId: "streamSearchEvents",
+    summary: "Follow a search's progress as Server-Sent Events.",
+});
+
+app.openapi(searchEventsRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, requestId),
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const sse = createSSEStream();
+    const signal = c.req.raw.signal;
+    // Polled status must not come from the cached connection, or a finished search streams on for up to a minute.
+    const dbDirect = c.get("dbDirect");
+    let cursor = Number(c.req.header("Last-Event-ID")) || 0;
+    let lastProgress: number | undefined;
+
+    // Every agent on the search logs under its request id, so polling the log covers them all.
+    const pump = async () => {
+        while (!signal.aborted) {
+            // Status is read before the logs, so everything logged before a final status is still sent.
+            const current = await dbDirect.query.githubRequests.findFirst({
+                where: eq(githubRequests.id, requestId),
+            });
+
+            let logs;
+            do {
+                logs = await schema.listRequestLogs(c.env, requestId, cursor);
+                for (const log of logs) {
+                    sse.send(toSearchEvent(log));
+                    cursor = log.id;
+                }
+            } while (logs.length > 0 && !signal.aborted);
+
+            const meta = await schema.getRequestStatusWithMeta(c.env, requestId);
+            if (meta && meta.progress !== lastProgress) {
+                lastProgress = meta.progress;
+                sse.send({
+                    type: "progress",
+                    data: { progress: meta.progress, stats: meta.stats_json ? JSON.parse(meta.stats_json) : null },
+                });
+            }
+
+            if (!current || FINAL_SEARCH_STATUSES.has(current.status) || RESTING_SEARCH_STATUSES.has(current.status)) {
+                sse.complete({ requestId, status: current?.status ?? "unknown" });
+                return;
+            }
+            await new Promise((resolve) => setTimeout(resolve, SEARCH_EVENTS_POLL_MS));
+        }
+    };
+
+    c.executionCtx.waitUntil(pump().catch((e: unknown) => {
+        // The client may already be gone, in which case the stream cannot be written to.
+        try {
+            sse.sendError(e instanceof Error ? e : String(e));
+            sse.complete();
+        } catch {
+            // Ignore.
+        }
+    }));
+
+    return new Response(sse.stream, { headers: getSSEHeaders() });
+});
+
+
 // GET /agent/hitl/{requestId}
 const getHitlRoute = createRoute({
     method: "get",
@@ -207,6 +442,22 @@ app.openapi(reviewHitlRoute, async (c) => {
 
 
 // GET /results/{id}
+const repoHealthSchema = z.object({
+    archived: z.boolean(),
+    fork: z.boolean(),
+    lastCommitAt: z.string().nullable(),
+    releaseCount: z.number(),
+    lastReleaseAt: z.string().nullable(),
+    medianReleaseIntervalDays: z.number().nullable(),
+    openIssues: z.number(),
+    closedIssues: z.number(),
+    openIssueRatio: z.number().nullable(),
+    medianPrMergeHours: z.number().nullable(),
+    contributorCount: z.number().nullable(),
+    busFactor: z.number().nullable(),
+    collectedAt: z.string(),
+}).openapi("RepoHealthMetrics");
+
 const getResultsRoute = createRoute({
     method: "get",
     path: "/results/{requestId}",
@@ -219,10 +470,17 @@ const getResultsRoute = createRoute({
     },
     responses: {
         200: {
-            description: "A list of repository analysis results.",
+            description: "A list of repository analysis results, each with its health metrics and the caller's favorite and tags for the repository.",
             content: {
                 "application/json": {
-                    schema: z.array(z.any()),
+                    schema: z.array(z.object({
+                        health: repoHealthSchema.nullable(),
+                        favorite: z.object({
+                            id: z.string(),
+                            notes: z.string().nullable(),
+                        }).nullable(),
+                        tags: z.array(tagSummarySchema),
+                    }).passthrough()),
                 },
             },
         },
@@ -237,7 +495,775 @@ app.openapi(getResultsRoute, async (c) => {
     const results = await db.query.repoAnalysis.findMany({
         where: eq(repoAnalysis.requestId, requestId),
     });
-    return c.json(results);
+    const curation = await loadRepoCuration(db, c.get("user")?.id ?? null, results.map((r) => r.repoUrl));
+    return c.json(results.map((r) => {
+        const { favorite, tags } = curation.get(r.repoUrl) ?? { favorite: null, tags: [] };
+        return {
+            ...r,
+            health: r.health as RepoHealthMetrics | null,
+            favorite: favorite && { id: favorite.id, notes: favorite.notes },
+            tags,
+        };
+    }));
+});
+
+
+// GET /results/{id}/usage
+const usageTotalsShape = {
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    costUsd: z.number().openapi({
+        description: "Estimated from the price table in lib/ai/usage.ts (override with AI_PRICE_TABLE). Unpriced models count tokens only.",
+    }),
+    calls: z.number(),
+};
+
+const requestUsageSchema = z.object({
+    ...usageTotalsShape,
+    byAgent: z.array(z.object({
+        agent: z.string(),
+        provider: z.string().nullable(),
+        model: z.string().nullable(),
+        ...usageTotalsShape,
+    })),
+}).openapi("RequestUsage");
+
+const getResultsUsageRoute = createRoute({
+    method: "get",
+    path: "/results/{requestId}/usage",
+    request: {
+        params: z.object({
+            requestId: z.string().openapi({
+                description: "The ID of the search request.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Token usage and estimated cost of the request's model calls, in total and per agent, provider and model.",
+            content: {
+                "application/json": {
+                    schema: requestUsageSchema,
+                },
+            },
+        },
+    },
+    operationId: "getResultsUsage",
+    summary: "Get the token usage and cost of a search request.",
+});
+
+app.openapi(getResultsUsageRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    return c.json(await schema.summarizeRequestUsage(c.env, requestId));
+});
+
+
+// POST /results/{id}/export
+// A POST, since every export stores a new report; a GET would let prefetches and retries add duplicates.
+const exportResultsRoute = createRoute({
+    method: "post",
+    path: "/results/{requestId}/export",
+    request: {
+        params: z.object({
+            requestId: z.string().openapi({
+                description: "The ID of the search request.",
+            }),
+        }),
+        query: z.object({
+            format: z.enum(REPORT_FORMATS).default("md").openapi({
+                description: "md: comparison table plus a section per repository; csv: one row per repository; json: the same rows as JSON.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The report as a file download. It is also stored and listed under /reports.",
+            content: {
+                "text/markdown": { schema: z.string() },
+                "text/csv": { schema: z.string() },
+                "application/json": { schema: z.any() },
+            },
+        },
+        404: {
+            description: "The search request does not exist.",
+        },
+    },
+    operationId: "exportResults",
+    summary: "Generate a report from the results of a search request.",
+});
+
+function reportResponse(report: { id: string, format: string, content: string }) {
+    const format = report.format as ReportFormat;
+    return new Response(report.content, {
+        headers: {
+            "Content-Type": REPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="report-${report.id}.${format}"`,
+        },
+    });
+}
+
+app.openapi(exportResultsRoute, async (c) => {
+    const { requestId } = c.req.valid("param");
+    const { format } = c.req.valid("query");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, requestId),
+        with: { repoAnalysis: true },
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const { repoAnalysis: analyses, ...searchRequest } = request;
+    const [report] = await db.insert(reports).values({
+        requestId,
+        format,
+        title: reportTitle(searchRequest),
+        content: renderReport(format, searchRequest, analyses),
+        createdBy: c.get("user")?.id ?? null,
+    }).returning();
+
+    return reportResponse(report);
+});
+
+
+// GET /agent/reports
+const listReportsRoute = createRoute({
+    method: "get",
+    path: "/reports",
+    request: {
+        query: z.object({
+            requestId: z.string().optional().openapi({
+                description: "Only reports generated for this search request.",
+            }),
+            limit: z.coerce.number().int().min(1).max(100).default(50),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Generated reports, newest first.",
+            content: {
+                "application/json": {
+                    schema: z.array(z.object({
+                        id: z.string(),
+                        requestId: z.string(),
+                        format: z.enum(REPORT_FORMATS),
+                        title: z.string(),
+                        size: z.number(),
+                        createdAt: z.string(),
+                    })),
+                },
+            },
+        },
+    },
+    operationId: "listReports",
+    summary: "List generated reports.",
+});
+
+app.openapi(listReportsRoute, async (c) => {
+    const { requestId, limit } = c.req.valid("query");
+    const db = c.get("db");
+    const rows = await db.query.reports.findMany({
+        where: requestId ? eq(reports.requestId, requestId) : undefined,
+        orderBy: desc(reports.createdAt),
+        limit,
+    });
+    return c.json(rows.map((r) => ({
+        id: r.id,
+        requestId: r.requestId,
+        format: r.format as ReportFormat,
+        title: r.title,
+        size: new TextEncoder().encode(r.content).length,
+        createdAt: r.createdAt.toISOString(),
+    })));
+});
+
+
+// GET /agent/reports/{id}/download
+const downloadReportRoute = createRoute({
+    method: "get",
+    path: "/reports/{id}/download",
+    request: {
+        params: z.object({
+            id: z.string().openapi({
+                description: "The ID of the report.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The stored report file.",
+            content: {
+                "text/markdown": { schema: z.string() },
+                "text/csv": { schema: z.string() },
+                "application/json": { schema: z.any() },
+            },
+        },
+        404: {
+            description: "The report does not exist.",
+        },
+    },
+    operationId: "downloadReport",
+    summary: "Download a generated report.",
+});
+
+app.openapi(downloadReportRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const report = await db.query.reports.findFirst({
+        where: eq(reports.id, id),
+    });
+    if (!report) {
+        return c.json({ error: "Report not found" }, 404);
+    }
+    return reportResponse(report);
+});
+
+
+// GET /agent/requests
+const listRequestsRoute = createRoute({
+    method: "get",
+    path: "/requests",
+    request: {
+        query: z.object({
+            status: z.string().optional().openapi({
+                description: "Only requests in this status (e.g. completed, paused, hitl).",
+            }),
+            from: z.coerce.date().optional().openapi({
+                description: "Only requests created at or after this time (ISO 8601).",
+                example: "2025-01-01T00:00:00Z",
+            }),
+            to: z.coerce.date().optional().openapi({
+                description: "Only requests created at or before this time (ISO 8601).",
+            }),
+            sessionId: z.string().optional().openapi({
+                description: "Only requests made in this session.",
+            }),
+            userId: z.string().optional().openapi({
+                description: "Only requests made by this user, in any of their sessions.",
+            }),
+            q: z.string().optional().openapi({
+                description: "Case-insensitive text to find in the request's query.",
+                example: "authentication",
+            }),
+            limit: z.coerce.number().int().min(1).max(100).default(20),
+            cursor: z.string().optional().openapi({
+                description: "The nextCursor of the previous page.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "A page of search requests, newest first.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        requests: z.array(z.object({
+                            id: z.string(),
+                            query: z.string(),
+                            status: z.string(),
+                            config: z.any(),
+                            sessionId: z.string(),
+                            parentId: z.string().nullable(),
+                            createdAt: z.string(),
+                            updatedAt: z.string(),
+                        })),
+                        nextCursor: z.string().nullable(),
+                    }),
+                },
+            },
+        },
+        400: {
+            description: "The cursor is malformed.",
+        },
+    },
+    operationId: "listRequests",
+    summary: "List past search requests.",
+});
+
+// The cursor is the last row's "<createdAt>|<id>"; the id breaks ties between rows created at the same instant.
+function decodeRequestsCursor(cursor: string): { createdAt: Date, id: string } | null {
+    const [createdAt, id] = cursor.split("|");
+    const date = new Date(createdAt);
+    return id && !isNaN(date.getTime()) ? { createdAt: date, id } : null;
+}
+
+// Makes `%` and `_` in user input match literally; backslash is Postgres' default LIKE escape character.
+function escapeLikePattern(value: string): string {
+    return value.replace(/[\\%_]/g, "\\$&");
+}
+
+app.openapi(listRequestsRoute, async (c) => {
+    const { status, from, to, sessionId, userId, q, limit, cursor } = c.req.valid("query");
+    const db = c.get("db");
+
+    const filters: SQL[] = [];
+    if (status) {
+        filters.push(eq(githubRequests.status, status));
+    }
+    if (from) {
+        filters.push(gte(githubRequests.createdAt, from));
+    }
+    if (to) {
+        filters.push(lte(githubRequests.createdAt, to));
+    }
+    if (sessionId) {
+        filters.push(eq(githubRequests.sessionId, sessionId));
+    }
+    if (userId) {
+        filters.push(inArray(
+            githubRequests.sessionId,
+            db.select({ id: sessions.id }).from(sessions).where(eq(sessions.userId, userId)),
+        ));
+    }
+    if (q) {
+        filters.push(ilike(githubRequests.query, `%${escapeLikePattern(q)}%`));
+    }
+    if (cursor) {
+        const after = decodeRequestsCursor(cursor);
+        if (!after) {
+            return c.json({ error: "Invalid cursor" }, 400);
+        }
+        filters.push(or(
+            lt(githubRequests.createdAt, after.createdAt),
+            and(eq(githubRequests.createdAt, after.createdAt), lt(githubRequests.id, after.id)),
+        ) as SQL);
+    }
+
+    // One extra row tells whether there is a next page.
+    const rows = await db.query.githubRequests.findMany({
+        where: filters.length > 0 ? and(...filters) : undefined,
+        orderBy: [desc(githubRequests.createdAt), desc(githubRequests.id)],
+        limit: limit + 1,
+        columns: { checkpoint: false },
+    });
+    const page = rows.slice(0, limit);
+    const last = page[page.length - 1];
+
+    return c.json({
+        requests: page.map((r) => ({
+            ...r,
+            createdAt: r.createdAt.toISOString(),
+            updatedAt: r.updatedAt.toISOString(),
+        })),
+        nextCursor: rows.length > limit && last ? `${last.createdAt.toISOString()}|${last.id}` : null,
+    });
+});
+
+
+// GET /agent/requests/{id}
+const getRequestRoute = createRoute({
+    method: "get",
+    path: "/requests/{id}",
+    request: {
+        params: z.object({
+            id: z.string().openapi({
+                description: "The ID of the search request.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The request with its config, HITL verdicts, analysis results, judge decisions and token usage.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        request: z.any(),
+                        hitlReviews: z.array(z.any()),
+                        results: z.array(z.object({
+                            health: repoHealthSchema.nullable(),
+                        }).passthrough()),
+                        judgeDecisions: z.array(z.object({
+                            analysisId: z.string(),
+                            repoUrl: z.string(),
+                            verdict: z.string(),
+                            reasoning: z.string().nullable(),
+                            enrichmentRequest: z.string().nullable(),
+                            enrichmentRounds: z.number(),
+                        })),
+                        usage: requestUsageSchema,
+                    }),
+                },
+            },
+        },
+        404: {
+            description: "The search request does not exist.",
+        },
+    },
+    operationId: "getRequest",
+    summary: "Get a past search request in full.",
+});
+
+app.openapi(getRequestRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, id),
+        with: {
+            session: true,
+            hitlReviews: true,
+            repoAnalysis: true,
+        },
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const { session, hitlReviews: reviews, repoAnalysis: analyses, ...rest } = request;
+    const usage = await schema.summarizeRequestUsage(c.env, id);
+    const results = analyses
+        .sort((a, b) => (b.aiRanking ?? 0) - (a.aiRanking ?? 0))
+        .map((r) => ({ ...r, health: r.health as RepoHealthMetrics | null }));
+
+    return c.json({
+        request: { ...rest, userId: session?.userId ?? null },
+        hitlReviews: reviews,
+        results,
+        judgeDecisions: results
+            .filter((r) => r.judgeVerdict)
+            .map((r) => ({
+                analysisId: r.id,
+                repoUrl: r.repoUrl,
+                verdict: r.judgeVerdict as string,
+                reasoning: r.judgeReasoning,
+                enrichmentRequest: r.enrichmentRequest,
+                enrichmentRounds: r.enrichmentRounds,
+            })),
+        usage,
+    });
+});
+
+
+// GET /agent/requests/{id}/trace
+const getRequestTraceRoute = createRoute({
+    method: "get",
+    path: "/requests/{id}/trace",
+    request: {
+        params: z.object({
+            id: z.string().openapi({
+                description: "The ID of the search request.",
+            }),
+        }),
+        query: z.object({
+            afterId: z.coerce.number().int().min(0).default(0).openapi({
+                description: "Only events after this event id; pass the previous page's nextAfterId.",
+            }),
+            limit: z.coerce.number().int().min(1).max(1000).default(500),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The agents' messages, tool calls and tool results for the request, oldest first.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        requestId: z.string(),
+                        events: z.array(z.object({
+                            id: z.number(),
+                            agent: z.string(),
+                            role: z.string(),
+                            content: z.string(),
+                            truncated: z.boolean(),
+                            originalLength: z.number().nullable(),
+                            actionType: z.string(),
+                            toolName: z.string().nullable(),
+                            toolArgs: z.unknown(),
+                            provider: z.string().nullable(),
+                            model: z.string().nullable(),
+                            latencyMs: z.number().nullable(),
+                            tokens: z.object({ input: z.number().nullable(), output: z.number().nullable() }),
+                            status: z.string(),
+                            error: z.string().nullable(),
+                            createdAt: z.string(),
+                        }).openapi("AgentTraceEvent")),
+                        nextAfterId: z.number().nullable(),
+                    }),
+                },
+            },
+        },
+    },
+    operationId: "getRequestTrace",
+    summary: "Get the full agent timeline of a search request.",
+});
+
+app.openapi(getRequestTraceRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { afterId, limit } = c.req.valid("query");
+    const events = await schema.listAgentEvents(c.env, id, afterId, limit);
+
+    // Tool arguments are stored as (possibly truncated) JSON; a cut-off payload is returned as text.
+    const parseArgs = (json: string | null) => {
+        if (json === null) return null;
+        try {
+            return JSON.parse(json);
+        } catch {
+            return json;
+        }
+    };
+
+    return c.json({
+        requestId: id,
+        events: events.map((e) => ({
+            id: e.id,
+            agent: e.agent,
+            role: e.role,
+            content: e.content,
+            truncated: e.originalLength !== null,
+            originalLength: e.originalLength,
+            actionType: e.actionType,
+            toolName: e.toolName,
+            toolArgs: parseArgs(e.toolArgsJson),
+            provider: e.provider,
+            model: e.model,
+            latencyMs: e.latencyMs,
+            tokens: { input: e.inputTokens, output: e.outputTokens },
+            status: e.status,
+            error: e.error,
+            createdAt: e.createdAt.toISOString(),
+        })),
+        nextAfterId: events.length === limit ? events[events.length - 1].id : null,
+    });
+});
+
+
+// GET /agent/requests/{id}/chat
+const chatParams = z.object({
+    id: z.string().openapi({
+        description: "The ID of the search request the conversation is about.",
+    }),
+});
+
+const chatCitationSchema = z.object({
+    ref: z.number().openapi({ description: "The number the answer cites the source by, as in [1]." }),
+    repoUrl: z.string(),
+    path: z.string().nullable().openapi({ description: "The cited file, or null when the repo's analysis is cited." }),
+    url: z.string(),
+}).openapi("ChatCitation");
+
+const getChatRoute = createRoute({
+    method: "get",
+    path: "/requests/{id}/chat",
+    request: { params: chatParams },
+    responses: {
+        200: {
+            description: "The follow-up conversation about the request's results, oldest message first.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        requestId: z.string(),
+                        messages: z.array(z.object({
+                            id: z.string(),
+                            role: z.enum(["user", "assistant"]),
+                            content: z.string(),
+                            citations: z.array(chatCitationSchema),
+                            createdAt: z.string(),
+                        }).openapi("ChatMessage")),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: "The search request does not exist.",
+        },
+    },
+    operationId: "getRequestChat",
+    summary: "Get the follow-up conversation about a search's results.",
+});
+
+app.openapi(getChatRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, id),
+        with: { chatMessages: { orderBy: [asc(chatMessages.createdAt)] } },
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    return c.json({
+        requestId: id,
+        messages: request.chatMessages.map((m) => ({
+            id: m.id,
+            role: m.role as "user" | "assistant",
+            content: m.content,
+            citations: (m.citations as z.infer<typeof chatCitationSchema>[] | null) ?? [],
+            createdAt: m.createdAt.toISOString(),
+        })),
+    });
+});
+
+
+// POST /agent/requests/{id}/chat
+const chatRoute = createRoute({
+    method: "post",
+    path: "/requests/{id}/chat",
+    request: {
+        params: chatParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        query: z.string().min(1).openapi({
+                            example: "Which of these repos has the most active maintainers?",
+                        }),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "A text/event-stream of \"delta\" events with the answer as it is generated, then \"complete\" with the stored message: its messageId, the full answer and its citations. The question and answer join the conversation.",
+            content: {
+                "text/event-stream": {
+                    schema: z.string(),
+                },
+            },
+        },
+        404: {
+            description: "The search request does not exist.",
+        },
+    },
+    operationId: "chatAboutRequest",
+    summary: "Ask a follow-up question about a search's results, answered with citations.",
+});
+
+app.openapi(chatRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { query } = c.req.valid("json");
+    const db = c.get("db");
+    const request = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, id),
+    });
+    if (!request) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    const orchestrator = c.env.ORCHESTRATOR.get(c.env.ORCHESTRATOR.idFromName(id));
+    return new Response(await orchestrator.streamChat(id, query), { headers: getSSEHeaders() });
+});
+
+
+// POST /agent/requests/{id}/rerun
+const rerunRequestRoute = createRoute({
+    method: "post",
+    path: "/requests/{id}/rerun",
+    request: {
+        params: z.object({
+            id: z.string().openapi({
+                description: "The ID of the search request to re-run.",
+            }),
+        }),
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        query: z.string().optional().openapi({
+                            description: "A new query. Defaults to the original query.",
+                        }),
+                        searchConfig: z.string().optional().openapi({
+                            description: "The name or ID of a saved search configuration to use instead of the original request's config.",
+                        }),
+                        config: searchConfigSchema.optional().openapi({
+                            description: "Overrides applied on top of the original (or named) config.",
+                            example: { language: "rust", repos_to_analyze: 40 },
+                        }),
+                        skipHitl: z.boolean().default(false).openapi({
+                            description: "Reuse the original HITL verdicts as final and go straight to query expansion. Otherwise they are offered again as pre-filled reviews.",
+                        }),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "The re-run was started.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        message: z.string(),
+                        requestId: z.string(),
+                        parentId: z.string(),
+                    }),
+                },
+            },
+        },
+        404: {
+            description: "The search request or the named search configuration does not exist.",
+        },
+    },
+    operationId: "rerunRequest",
+    summary: "Re-run a past search, optionally with a different query or config.",
+});
+
+app.openapi(rerunRequestRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { query, searchConfig, config, skipHitl } = c.req.valid("json");
+    const db = c.get("db");
+
+    const parent = await db.query.githubRequests.findFirst({
+        where: eq(githubRequests.id, id),
+        with: { hitlReviews: true },
+    });
+    if (!parent) {
+        return c.json({ error: "Request not found" }, 404);
+    }
+
+    let resolvedConfig: ResolvedSearchConfig;
+    if (searchConfig) {
+        const storedConfig = await db.query.searchConfigs.findFirst({
+            where: or(eq(searchConfigs.id, searchConfig), eq(searchConfigs.name, searchConfig)),
+        });
+        if (!storedConfig) {
+            return c.json({ error: `Search configuration "${searchConfig}" not found` }, 404);
+        }
+        resolvedConfig = resolveSearchConfig(storedConfig, config);
+    } else {
+        // Requests from before search configs were resolved at creation only stored the raw overrides.
+        const parentConfig = parent.config as ResolvedSearchConfig | null;
+        resolvedConfig = parentConfig?.reposToAnalyze
+            ? applySearchConfigOverrides(parentConfig, config)
+            : resolveSearchConfig(undefined, { ...(parentConfig as SearchConfigOptions | null), ...config });
+    }
+
+    const requestId = crypto.randomUUID();
+    const rerunQuery = query ?? parent.query;
+    await db.insert(githubRequests).values({
+        id: requestId,
+        query: rerunQuery,
+        config: resolvedConfig,
+        sessionId: c.get("session")?.id ?? parent.sessionId,
+        parentId: parent.id,
+    });
+
+    // Verdicts carry over; unless HITL is skipped they come back as pending reviews, pre-filled,
+    // next to reviews for the repos the re-run's own search finds.
+    const carriedReviews = parent.hitlReviews.filter((r) => r.status === "reviewed");
+    if (carriedReviews.length > 0) {
+        await db.insert(hitlReviews).values(carriedReviews.map((r) => ({
+            id: crypto.randomUUID(),
+            requestId,
+            repoSnapshotJson: r.repoSnapshotJson,
+            userVerdict: r.userVerdict,
+            rationale: r.rationale,
+            status: skipHitl ? "reviewed" : "pending",
+            carriedFrom: r.id,
+        })));
+    }
+
+    // Unchanged repositories are not re-analyzed: analysts re-rank the cached analysis of the same HEAD commit.
+    const orchestrator = c.env.ORCHESTRATOR.get(c.env.ORCHESTRATOR.idFromName(requestId));
+    c.executionCtx.waitUntil(orchestrator.start(requestId, rerunQuery, resolvedConfig, {
+        skipHitl: skipHitl && carriedReviews.length > 0,
+    }));
+
+    return c.json({
+        message: "Re-run initiated",
+        requestId,
+        parentId: parent.id,
+    });
 });
 
 
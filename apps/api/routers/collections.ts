@@ -0,0 +1,497 @@
+import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
+import { z } from "zod";
+import { collectionRepos, collections, member, repoAnalysis } from "../../../db/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { AppContext } from "../lib/context";
+import { normalizeRepoUrl } from "../lib/favorites";
+import { REPORT_CONTENT_TYPES, REPORT_FORMATS, renderCollection } from "../lib/reports";
+
+const app = new OpenAPIHono<AppContext>();
+
+// Collections are visible to members of the owning organization only; every route here requires a user.
+app.use("*", async (c, next) => {
+    if (!c.get("user")) {
+        return c.json({ error: "Authentication required" }, 401);
+    }
+    await next();
+});
+
+type Database = AppContext["Variables"]["db"];
+
+const MANAGER_ROLES = ["owner", "admin"];
+
+async function findMembership(db: Database, userId: string, organizationId: string) {
+    return db.query.member.findFirst({
+        where: and(eq(member.userId, userId), eq(member.organizationId, organizationId)),
+    });
+}
+
+/**
+ * The collection together with the caller's membership in its organization,
+ * or null if it does not exist or the caller is not a member.
+ */
+async function findCollectionForMember(db: Database, userId: string, id: string) {
+    const collection = await db.query.collections.findFirst({
+        where: eq(collections.id, id),
+    });
+    if (!collection) return null;
+    const membership = await findMembership(db, userId, collection.organizationId);
+    return membership ? { collection, membership } : null;
+}
+
+const collectionSchema = z.object({
+    id: z.string(),
+    organizationId: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    createdBy: z.string().nullable(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+}).openapi("Collection");
+
+const collectionRepoSchema = z.object({
+    id: z.string(),
+    repoUrl: z.string(),
+    rationale: z.string(),
+    analysisId: z.string().nullable(),
+    requestId: z.string().nullable(),
+    addedBy: z.object({
+        id: z.string(),
+        name: z.string(),
+    }).nullable(),
+    addedAt: z.string(),
+}).openapi("CollectionRepo");
+
+const collectionParams = z.object({
+    id: z.string().openapi({
+        description: "The ID of the collection.",
+    }),
+});
+
+const notFound = {
+    404: {
+        description: "The collection does not exist or you are not a member of its organization.",
+    },
+};
+
+function toCollection(row: typeof collections.$inferSelect): z.infer<typeof collectionSchema> {
+    return {
+        ...row,
+        createdAt: row.createdAt.toISOString(),
+        updatedAt: row.updatedAt.toISOString(),
+    };
+}
+
+async function loadEntries(db: Database, collectionId: string) {
+    return db.query.collectionRepos.findMany({
+        where: eq(collectionRepos.collectionId, collectionId),
+        with: { analysis: true, addedByUser: true },
+        orderBy: [asc(collectionRepos.addedAt)],
+    });
+}
+
+
+// GET /collections
+const listCollectionsRoute = createRoute({
+    method: "get",
+    path: "/",
+    request: {
+        query: z.object({
+            organizationId: z.string().optional().openapi({
+                description: "Only collections of this organization. Defaults to all of your organizations.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Collections of your organizations, by name, with their repository counts.",
+            content: {
+                "application/json": {
+                    schema: z.array(collectionSchema.extend({ repoCount: z.number() })),
+                },
+            },
+        },
+    },
+    operationId: "listCollections",
+    summary: "List the collections you can read.",
+});
+
+app.openapi(listCollectionsRoute, async (c) => {
+    const { organizationId } = c.req.valid("query");
+    const db = c.get("db");
+    const memberships = await db.query.member.findMany({
+        where: eq(member.userId, c.get("user")!.id),
+    });
+    const orgIds = memberships
+        .map((m) => m.organizationId)
+        .filter((id) => !organizationId || id === organizationId);
+    if (orgIds.length === 0) {
+        return c.json([]);
+    }
+
+    const rows = await db.query.collections.findMany({
+        where: inArray(collections.organizationId, orgIds),
+        with: { repos: { columns: { id: true } } },
+        orderBy: [asc(collections.name)],
+    });
+    return c.json(rows.map(({ repos, ...row }) => ({ ...toCollection(row), repoCount: repos.length })));
+});
+
+
+// POST /collections
+const createCollectionRoute = createRoute({
+    method: "post",
+    path: "/",
+    request: {
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        organizationId: z.string(),
+                        name: z.string().min(1).max(100).openapi({
+                            example: "Approved auth libs",
+                        }),
+                        description: z.string().max(2000).optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: "Collection created.",
+            content: {
+                "application/json": {
+                    schema: collectionSchema,
+                },
+            },
+        },
+        403: {
+            description: "You are not a member of the organization.",
+        },
+        409: {
+            description: "The organization already has a collection with this name.",
+        },
+    },
+    operationId: "createCollection",
+    summary: "Create a collection for an organization.",
+});
+
+app.openapi(createCollectionRoute, async (c) => {
+    const { organizationId, name, description } = c.req.valid("json");
+    const db = c.get("db");
+    const userId = c.get("user")!.id;
+
+    if (!await findMembership(db, userId, organizationId)) {
+        return c.json({ error: "Not a member of this organization" }, 403);
+    }
+    const [collection] = await db.insert(collections)
+        .values({ organizationId, name, description, createdBy: userId })
+        .onConflictDoNothing()
+        .returning();
+    if (!collection) {
+        return c.json({ error: `Collection "${name}" already exists` }, 409);
+    }
+    return c.json(toCollection(collection), 201);
+});
+
+
+// GET /collections/{id}
+const getCollectionRoute = createRoute({
+    method: "get",
+    path: "/{id}",
+    request: {
+        params: collectionParams,
+    },
+    responses: {
+        200: {
+            description: "The collection and its repositories, in the order they were added.",
+            content: {
+                "application/json": {
+                    schema: collectionSchema.extend({
+                        repos: z.array(collectionRepoSchema),
+                    }),
+                },
+            },
+        },
+        ...notFound,
+    },
+    operationId: "getCollection",
+    summary: "Get a collection with its repositories.",
+});
+
+app.openapi(getCollectionRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const found = await findCollectionForMember(db, c.get("user")!.id, id);
+    if (!found) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+
+    const entries = await loadEntries(db, id);
+    return c.json({
+        ...toCollection(found.collection),
+        repos: entries.map((e) => ({
+            id: e.id,
+            repoUrl: e.repoUrl,
+            rationale: e.rationale,
+            analysisId: e.analysisId,
+            requestId: e.analysis?.requestId ?? null,
+            addedBy: e.addedByUser && { id: e.addedByUser.id, name: e.addedByUser.name },
+            addedAt: e.addedAt.toISOString(),
+        })),
+    });
+});
+
+
+// PATCH /collections/{id}
+const updateCollectionRoute = createRoute({
+    method: "patch",
+    path: "/{id}",
+    request: {
+        params: collectionParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        name: z.string().min(1).max(100).optional(),
+                        description: z.string().max(2000).nullable().optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "Collection updated.",
+        },
+        ...notFound,
+        409: {
+            description: "The organization already has a collection with this name.",
+        },
+    },
+    operationId: "updateCollection",
+    summary: "Rename a collection or change its description.",
+});
+
+app.openapi(updateCollectionRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { name, description } = c.req.valid("json");
+    const db = c.get("db");
+    const found = await findCollectionForMember(db, c.get("user")!.id, id);
+    if (!found) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+    if (name && name !== found.collection.name) {
+        const clash = await db.query.collections.findFirst({
+            where: and(eq(collections.organizationId, found.collection.organizationId), eq(collections.name, name)),
+        });
+        if (clash) {
+            return c.json({ error: `Collection "${name}" already exists` }, 409);
+        }
+    }
+    await db.update(collections).set({ name, description }).where(eq(collections.id, id));
+    return c.json({ message: "Collection updated" });
+});
+
+
+// DELETE /collections/{id}
+const deleteCollectionRoute = createRoute({
+    method: "delete",
+    path: "/{id}",
+    request: {
+        params: collectionParams,
+    },
+    responses: {
+        200: {
+            description: "Collection deleted, with its entries.",
+        },
+        403: {
+            description: "Only the collection's creator or an organization owner or admin can delete it.",
+        },
+        ...notFound,
+    },
+    operationId: "deleteCollection",
+    summary: "Delete a collection.",
+});
+
+app.openapi(deleteCollectionRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const userId = c.get("user")!.id;
+    const found = await findCollectionForMember(db, userId, id);
+    if (!found) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+    if (found.collection.createdBy !== userId && !MANAGER_ROLES.includes(found.membership.role)) {
+        return c.json({ error: "Not allowed to delete this collection" }, 403);
+    }
+    await db.delete(collections).where(eq(collections.id, id));
+    return c.json({ message: "Collection deleted" });
+});
+
+
+// POST /collections/{id}/repos
+const addCollectionRepoRoute = createRoute({
+    method: "post",
+    path: "/{id}/repos",
+    request: {
+        params: collectionParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        analysisId: z.string().optional().openapi({
+                            description: "The search result (repo_analysis ID) to add. Its repository URL is used.",
+                        }),
+                        repoUrl: z.string().url().optional().openapi({
+                            description: "A repository to add without a search result.",
+                            example: "https://github.com/better-auth/better-auth",
+                        }),
+                        rationale: z.string().min(1).max(2000).openapi({
+                            description: "Why the repository belongs in the collection.",
+                        }),
+                    }).refine((body) => body.analysisId || body.repoUrl, {
+                        message: "Either analysisId or repoUrl is required.",
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: "The repository was added.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        id: z.string(),
+                        repoUrl: z.string(),
+                    }),
+                },
+            },
+        },
+        ...notFound,
+        409: {
+            description: "The repository is already in the collection.",
+        },
+    },
+    operationId: "addCollectionRepo",
+    summary: "Add a repository to a collection, with a rationale.",
+});
+
+app.openapi(addCollectionRepoRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { analysisId, repoUrl, rationale } = c.req.valid("json");
+    const db = c.get("db");
+    const userId = c.get("user")!.id;
+    if (!await findCollectionForMember(db, userId, id)) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+
+    let url = repoUrl;
+    if (analysisId) {
+        const analysis = await db.query.repoAnalysis.findFirst({
+            where: eq(repoAnalysis.id, analysisId),
+        });
+        if (!analysis) {
+            return c.json({ error: "Search result not found" }, 404);
+        }
+        url = analysis.repoUrl;
+    }
+
+    const [entry] = await db.insert(collectionRepos)
+        .values({ collectionId: id, repoUrl: normalizeRepoUrl(url!), rationale, analysisId, addedBy: userId })
+        .onConflictDoNothing()
+        .returning();
+    if (!entry) {
+        return c.json({ error: "Repository is already in this collection" }, 409);
+    }
+    return c.json({ id: entry.id, repoUrl: entry.repoUrl }, 201);
+});
+
+
+// DELETE /collections/{id}/repos/{entryId}
+const removeCollectionRepoRoute = createRoute({
+    method: "delete",
+    path: "/{id}/repos/{entryId}",
+    request: {
+        params: collectionParams.extend({
+            entryId: z.string().openapi({
+                description: "The ID of the collection entry.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The repository was removed from the collection.",
+        },
+        ...notFound,
+    },
+    operationId: "removeCollectionRepo",
+    summary: "Remove a repository from a collection.",
+});
+
+app.openapi(removeCollectionRepoRoute, async (c) => {
+    const { id, entryId } = c.req.valid("param");
+    const db = c.get("db");
+    if (!await findCollectionForMember(db, c.get("user")!.id, id)) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+    await db.delete(collectionRepos)
+        .where(and(eq(collectionRepos.id, entryId), eq(collectionRepos.collectionId, id)));
+    return c.json({ message: "Repository removed" });
+});
+
+
+// GET /collections/{id}/export
+const exportCollectionRoute = createRoute({
+    method: "get",
+    path: "/{id}/export",
+    request: {
+        params: collectionParams,
+        query: z.object({
+            format: z.enum(REPORT_FORMATS).default("md").openapi({
+                description: "md: a table of repositories with rationales plus their analysis summaries; csv and json: one row per repository.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The collection as a file download.",
+            content: {
+                "text/markdown": { schema: z.string() },
+                "text/csv": { schema: z.string() },
+                "application/json": { schema: z.any() },
+            },
+        },
+        ...notFound,
+    },
+    operationId: "exportCollection",
+    summary: "Export a collection.",
+});
+
+app.openapi(exportCollectionRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { format } = c.req.valid("query");
+    const db = c.get("db");
+    const found = await findCollectionForMember(db, c.get("user")!.id, id);
+    if (!found) {
+        return c.json({ error: "Collection not found" }, 404);
+    }
+
+    const entries = await loadEntries(db, id);
+    const content = renderCollection(
+        format,
+        found.collection,
+        entries.map(({ addedByUser, ...e }) => ({ ...e, addedByName: addedByUser?.name ?? null })),
+    );
+    return new Response(content, {
+        headers: {
+            "Content-Type": REPORT_CONTENT_TYPES[format],
+            "Content-Disposition": `attachment; filename="collection-${id}.${format}"`,
+        },
+    });
+});
+
+
+export const collectionsRouter = app;
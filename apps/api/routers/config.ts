@@ -4,13 +4,16 @@ import { z } from "zod";
 import { searchConfigs } from "../../../db/schema";
 import { eq } from "drizzle-orm";
 import { AppContext } from "../lib/context";
+import { searchConfigSchema } from "../lib/agents/core/search-config";
 
 const app = new OpenAPIHono<AppContext>();
 
 const configSchema = z.object({
     name: z.string(),
-    config: z.any(),
+    config: searchConfigSchema,
     reposToAnalyze: z.number().optional(),
+    enrichmentRounds: z.number().int().min(0).optional(),
+    analysisCacheTtlHours: z.number().int().min(0).optional(),
     isDefault: z.boolean().optional(),
 });
 
@@ -55,15 +58,18 @@ const createConfigRoute = createRoute({
         201: {
             description: "Search configuration created successfully.",
         },
+        400: {
+            description: "The configuration does not match the search config schema.",
+        },
     },
     operationId: "createConfig",
     summary: "Create a new search configuration.",
 });
 
 app.openapi(createConfigRoute, async (c) => {
-    const { name, config, reposToAnalyze, isDefault } = c.req.valid("json");
+    const { name, config, reposToAnalyze, enrichmentRounds, analysisCacheTtlHours, isDefault } = c.req.valid("json");
     const db = c.get("db");
-    await db.insert(searchConfigs).values({ name, config, reposToAnalyze, isDefault });
+    await db.insert(searchConfigs).values({ name, config, reposToAnalyze, enrichmentRounds, analysisCacheTtlHours, isDefault });
     return c.json({ message: "Configuration created" }, 201);
 });
 
@@ -88,6 +94,9 @@ const updateConfigRoute = createRoute({
         200: {
             description: "Search configuration updated successfully.",
         },
+        400: {
+            description: "The configuration does not match the search config schema.",
+        },
     },
     operationId: "updateConfig",
     summary: "Update a search configuration.",
@@ -95,9 +104,9 @@ const updateConfigRoute = createRoute({
 
 app.openapi(updateConfigRoute, async (c) => {
     const { id } = c.req.valid("param");
-    const { name, config, reposToAnalyze, isDefault } = c.req.valid("json");
+    const { name, config, reposToAnalyze, enrichmentRounds, analysisCacheTtlHours, isDefault } = c.req.valid("json");
     const db = c.get("db");
-    await db.update(searchConfigs).set({ name, config, reposToAnalyze, isDefault }).where(eq(searchConfigs.id, id));
+    await db.update(searchConfigs).set({ name, config, reposToAnalyze, enrichmentRounds, analysisCacheTtlHours, isDefault }).where(eq(searchConfigs.id, id));
     return c.json({ message: "Configuration updated" });
 });
 
@@ -0,0 +1,310 @@
+import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
+import { z } from "zod";
+import { favorites, repoChangeEvents, tags } from "../../../db/schema";
+import { and, desc, eq, gte, inArray, or, type SQL } from "drizzle-orm";
+import { AppContext } from "../lib/context";
+import { loadRepoCuration, normalizeRepoUrl } from "../lib/favorites";
+import { CHANGE_KINDS } from "../lib/watchlist";
+
+const app = new OpenAPIHono<AppContext>();
+
+// Favorites belong to the signed-in user; every route here requires one.
+app.use("*", async (c, next) => {
+    if (!c.get("user")) {
+        return c.json({ error: "Authentication required" }, 401);
+    }
+    await next();
+});
+
+export const tagSummarySchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    cssColor: z.string().nullable(),
+}).openapi("TagSummary");
+
+const favoriteSchema = z.object({
+    id: z.string(),
+    repoUrl: z.string(),
+    notes: z.string().nullable(),
+    timestamp: z.string(),
+    tags: z.array(tagSummarySchema),
+}).openapi("Favorite");
+
+const favoriteParams = z.object({
+    id: z.string().openapi({
+        description: "The ID of the favorite.",
+    }),
+});
+
+const unauthorized = {
+    401: {
+        description: "No user is signed in.",
+    },
+};
+
+
+// GET /favorites
+const listFavoritesRoute = createRoute({
+    method: "get",
+    path: "/",
+    request: {
+        query: z.object({
+            tag: z.string().optional().openapi({
+                description: "Only favorites carrying this tag (ID or name).",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The caller's favorites, most recent first, each with its tags.",
+            content: {
+                "application/json": {
+                    schema: z.array(favoriteSchema),
+                },
+            },
+        },
+        ...unauthorized,
+        404: {
+            description: "The tag does not exist.",
+        },
+    },
+    operationId: "listFavorites",
+    summary: "List your favorite repositories.",
+});
+
+app.openapi(listFavoritesRoute, async (c) => {
+    const { tag } = c.req.valid("query");
+    const db = c.get("db");
+    const userId = c.get("user")!.id;
+
+    let tagId: string | undefined;
+    if (tag) {
+        const found = await db.query.tags.findFirst({
+            where: and(or(eq(tags.id, tag), eq(tags.name, tag)), eq(tags.isActive, true)),
+        });
+        if (!found) {
+            return c.json({ error: `Tag "${tag}" not found` }, 404);
+        }
+        tagId = found.id;
+    }
+
+    const rows = await db.query.favorites.findMany({
+        where: and(eq(favorites.userId, userId), eq(favorites.isActive, true)),
+        orderBy: [desc(favorites.timestamp)],
+    });
+    const curation = await loadRepoCuration(db, userId, rows.map((f) => f.repoUrl));
+
+    return c.json(rows
+        .map((f) => ({
+            id: f.id,
+            repoUrl: f.repoUrl,
+            notes: f.notes,
+            timestamp: f.timestamp.toISOString(),
+            tags: curation.get(f.repoUrl)?.tags ?? [],
+        }))
+        .filter((f) => !tagId || f.tags.some((t) => t.id === tagId)));
+});
+
+
+// POST /favorites
+const addFavoriteRoute = createRoute({
+    method: "post",
+    path: "/",
+    request: {
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        repoUrl: z.string().url().openapi({
+                            example: "https://github.com/honojs/hono",
+                        }),
+                        notes: z.string().max(2000).optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: "The repository is a favorite. Favoriting it again replaces the notes.",
+            content: {
+                "application/json": {
+                    schema: favoriteSchema.omit({ tags: true }),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "addFavorite",
+    summary: "Favorite a repository.",
+});
+
+app.openapi(addFavoriteRoute, async (c) => {
+    const { repoUrl, notes } = c.req.valid("json");
+    const db = c.get("db");
+    const [favorite] = await db.insert(favorites)
+        .values({ userId: c.get("user")!.id, repoUrl: normalizeRepoUrl(repoUrl), notes })
+        .onConflictDoUpdate({
+            target: [favorites.userId, favorites.repoUrl],
+            set: { notes: notes ?? null, isActive: true, timestamp: new Date() },
+        })
+        .returning();
+    return c.json({
+        id: favorite.id,
+        repoUrl: favorite.repoUrl,
+        notes: favorite.notes,
+        timestamp: favorite.timestamp.toISOString(),
+    }, 201);
+});
+
+
+// PATCH /favorites/{id}
+const updateFavoriteRoute = createRoute({
+    method: "patch",
+    path: "/{id}",
+    request: {
+        params: favoriteParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        notes: z.string().max(2000).nullable(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "Notes updated.",
+        },
+        ...unauthorized,
+        404: {
+            description: "You have no such favorite.",
+        },
+    },
+    operationId: "updateFavorite",
+    summary: "Edit the notes on a favorite.",
+});
+
+app.openapi(updateFavoriteRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { notes } = c.req.valid("json");
+    const db = c.get("db");
+    const updated = await db.update(favorites)
+        .set({ notes })
+        .where(and(eq(favorites.id, id), eq(favorites.userId, c.get("user")!.id), eq(favorites.isActive, true)))
+        .returning({ id: favorites.id });
+    if (updated.length === 0) {
+        return c.json({ error: "Favorite not found" }, 404);
+    }
+    return c.json({ message: "Favorite updated" });
+});
+
+
+// DELETE /favorites/{id}
+const removeFavoriteRoute = createRoute({
+    method: "delete",
+    path: "/{id}",
+    request: {
+        params: favoriteParams,
+    },
+    responses: {
+        200: {
+            description: "The repository is no longer a favorite.",
+        },
+        ...unauthorized,
+        404: {
+            description: "You have no such favorite.",
+        },
+    },
+    operationId: "removeFavorite",
+    summary: "Unfavorite a repository.",
+});
+
+app.openapi(removeFavoriteRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    const removed = await db.update(favorites)
+        .set({ isActive: false })
+        .where(and(eq(favorites.id, id), eq(favorites.userId, c.get("user")!.id)))
+        .returning({ id: favorites.id });
+    if (removed.length === 0) {
+        return c.json({ error: "Favorite not found" }, 404);
+    }
+    return c.json({ message: "Favorite removed" });
+});
+
+
+// GET /favorites/changes
+const listFavoriteChangesRoute = createRoute({
+    method: "get",
+    path: "/changes",
+    request: {
+        query: z.object({
+            since: z.string().datetime().optional().openapi({
+                description: "Only changes detected at or after this time (ISO 8601).",
+            }),
+            kind: z.enum(CHANGE_KINDS).optional(),
+            limit: z.coerce.number().int().min(1).max(200).default(50),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Changes the watchlist detected in your favorited repositories, newest first.",
+            content: {
+                "application/json": {
+                    schema: z.array(z.object({
+                        id: z.string(),
+                        repoUrl: z.string(),
+                        kind: z.enum(CHANGE_KINDS),
+                        summary: z.string(),
+                        previous: z.unknown(),
+                        current: z.unknown(),
+                        detectedAt: z.string(),
+                    }).openapi("RepoChangeEvent")),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "listFavoriteChanges",
+    summary: "List changes detected in your favorite repositories.",
+});
+
+app.openapi(listFavoriteChangesRoute, async (c) => {
+    const { since, kind, limit } = c.req.valid("query");
+    const db = c.get("db");
+    const watched = await db.query.favorites.findMany({
+        where: and(eq(favorites.userId, c.get("user")!.id), eq(favorites.isActive, true)),
+        columns: { repoUrl: true },
+    });
+    if (watched.length === 0) {
+        return c.json([]);
+    }
+
+    const filters: SQL[] = [inArray(repoChangeEvents.repoUrl, watched.map((f) => f.repoUrl))];
+    if (since) {
+        filters.push(gte(repoChangeEvents.detectedAt, new Date(since)));
+    }
+    if (kind) {
+        filters.push(eq(repoChangeEvents.kind, kind));
+    }
+    const events = await db.query.repoChangeEvents.findMany({
+        where: and(...filters),
+        orderBy: [desc(repoChangeEvents.detectedAt)],
+        limit,
+    });
+    return c.json(events.map((e) => ({
+        id: e.id,
+        repoUrl: e.repoUrl,
+        kind: e.kind as (typeof CHANGE_KINDS)[number],
+        summary: e.summary,
+        previous: e.previous,
+        current: e.current,
+        detectedAt: e.detectedAt.toISOString(),
+    })));
+});
+
+
+export const favoritesRouter = app;
@@ -0,0 +1,160 @@
+import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
+import { z } from "zod";
+import { AppContext } from "../lib/context";
+import { KNOWLEDGE_KINDS, SearchService } from "../lib/search";
+
+const app = new OpenAPIHono<AppContext>();
+
+// The knowledge base is shared by every agent; only signed-in users may change or query it.
+app.use("*", async (c, next) => {
+    if (!c.get("user")) {
+        return c.json({ error: "Authentication required" }, 401);
+    }
+    await next();
+});
+
+const unauthorized = {
+    401: {
+        description: "No user is signed in.",
+    },
+};
+
+
+// POST /knowledge/documents
+const ingestDocumentRoute = createRoute({
+    method: "post",
+    path: "/documents",
+    request: {
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        id: z.string().min(1).max(200).optional().openapi({
+                            description: "A stable ID; ingesting the same ID again replaces the document. Generated if omitted.",
+                            example: "sf-dbi-106a",
+                        }),
+                        kind: z.enum(KNOWLEDGE_KINDS),
+                        source: z.string().min(1).openapi({
+                            description: "Where the text comes from; searches can be limited to one source.",
+                            example: "SF DBI",
+                        }),
+                        content: z.string().min(1),
+                        metadata: z.record(z.string(), z.union([z.string(), z.number(), z.boolean()])).optional(),
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: "The document was chunked, embedded and indexed.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        documentId: z.string(),
+                        chunks: z.number(),
+                    }),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "ingestKnowledgeDocument",
+    summary: "Add a document to the knowledge base searched by vector_search and search_regulations.",
+});
+
+app.openapi(ingestDocumentRoute, async (c) => {
+    const { id, ...document } = c.req.valid("json");
+    const searcher = new SearchService(c.env);
+    const result = await searcher.ingest({ id: id ?? crypto.randomUUID(), ...document });
+    return c.json(result, 201);
+});
+
+
+// DELETE /knowledge/documents/{id}
+const removeDocumentRoute = createRoute({
+    method: "delete",
+    path: "/documents/{id}",
+    request: {
+        params: z.object({
+            id: z.string().openapi({
+                description: "The ID of the document.",
+            }),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The document was removed from the knowledge base.",
+        },
+        ...unauthorized,
+        404: {
+            description: "No document with this ID is indexed.",
+        },
+    },
+    operationId: "removeKnowledgeDocument",
+    summary: "Remove a document from the knowledge base.",
+});
+
+app.openapi(removeDocumentRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const removed = await new SearchService(c.env).remove(id);
+    if (removed === 0) {
+        return c.json({ error: "Document not found" }, 404);
+    }
+    return c.json({ message: "Document removed", chunks: removed });
+});
+
+
+// GET /knowledge/search
+const searchRoute = createRoute({
+    method: "get",
+    path: "/search",
+    request: {
+        query: z.object({
+            q: z.string().min(1),
+            kind: z.enum(KNOWLEDGE_KINDS).optional(),
+            source: z.string().optional(),
+            limit: z.coerce.number().int().min(1).max(25).default(5),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The best matching chunks, ranked by the fused vector and keyword score.",
+            content: {
+                "application/json": {
+                    schema: z.array(z.object({
+                        id: z.string(),
+                        documentId: z.string(),
+                        kind: z.enum(KNOWLEDGE_KINDS),
+                        source: z.string(),
+                        content: z.string(),
+                        score: z.number(),
+                        vectorScore: z.number(),
+                        keywordScore: z.number(),
+                    }).openapi("KnowledgeSearchResult")),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "searchKnowledge",
+    summary: "Search the knowledge base.",
+});
+
+app.openapi(searchRoute, async (c) => {
+    const { q, kind, source, limit } = c.req.valid("query");
+    const results = await new SearchService(c.env).search(q, limit, { kind, source });
+    return c.json(results.map((r) => ({
+        id: r.id,
+        documentId: r.documentId,
+        kind: r.kind,
+        source: r.source,
+        content: r.content,
+        score: r.score,
+        vectorScore: r.vectorScore,
+        keywordScore: r.keywordScore,
+    })));
+});
+
+
+export const knowledgeRouter = app;
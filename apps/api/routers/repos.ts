@@ -0,0 +1,156 @@
+import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
+import { z } from "zod";
+import { AppContext } from "../lib/context";
+import { normalizeRepoUrl } from "../lib/favorites";
+import { findSimilarRepos, reindexAnalyzedRepos, searchAnalyzedRepos, type RepoMatch } from "../lib/repo-index";
+
+const app = new OpenAPIHono<AppContext>();
+
+// The index covers every repo the team has analyzed; every route here requires a signed-in user.
+app.use("*", async (c, next) => {
+    if (!c.get("user")) {
+        return c.json({ error: "Authentication required" }, 401);
+    }
+    await next();
+});
+
+const unauthorized = {
+    401: {
+        description: "No user is signed in.",
+    },
+};
+
+const repoMatchSchema = z.object({
+    repoUrl: z.string(),
+    score: z.number().openapi({ description: "Relevance in [0, 1]." }),
+    matchedIn: z.enum(["analysis", "readme"]),
+    excerpt: z.string().openapi({ description: "The indexed text that matched." }),
+    summary: z.string().nullable(),
+    techStack: z.array(z.string()),
+    stars: z.number().nullable(),
+}).openapi("RepoMatch");
+
+function toResponse(match: RepoMatch) {
+    return {
+        repoUrl: match.repoUrl,
+        score: match.score,
+        matchedIn: match.matchedIn,
+        excerpt: match.excerpt,
+        summary: match.profile?.aiSummary ?? null,
+        techStack: Array.isArray(match.profile?.techStack) ? match.profile.techStack as string[] : [],
+        stars: match.profile?.stars ?? null,
+    };
+}
+
+
+// GET /repos/similar
+const similarReposRoute = createRoute({
+    method: "get",
+    path: "/similar",
+    request: {
+        query: z.object({
+            repoUrl: z.string().url().openapi({
+                example: "https://github.com/honojs/hono",
+            }),
+            limit: z.coerce.number().int().min(1).max(50).default(10),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Analyzed repos whose analysis is most like this repo's, most similar first.",
+            content: {
+                "application/json": {
+                    schema: z.array(repoMatchSchema),
+                },
+            },
+        },
+        ...unauthorized,
+        404: {
+            description: "The repository has never been analyzed.",
+        },
+    },
+    operationId: "findSimilarRepos",
+    summary: "Find repos like this one.",
+});
+
+app.openapi(similarReposRoute, async (c) => {
+    const { repoUrl, limit } = c.req.valid("query");
+    const matches = await findSimilarRepos(c.env, c.get("db"), normalizeRepoUrl(repoUrl), limit);
+    if (!matches) {
+        return c.json({ error: "Repository has not been analyzed" }, 404);
+    }
+    return c.json(matches.map(toResponse));
+});
+
+
+// GET /repos/search
+const searchReposRoute = createRoute({
+    method: "get",
+    path: "/search",
+    request: {
+        query: z.object({
+            q: z.string().min(1).openapi({
+                example: "edge-friendly web framework with OpenAPI support",
+            }),
+            limit: z.coerce.number().int().min(1).max(50).default(10),
+        }),
+    },
+    responses: {
+        200: {
+            description: "Analyzed repos whose analysis or README best matches the query, best first.",
+            content: {
+                "application/json": {
+                    schema: z.array(repoMatchSchema),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "searchAnalyzedRepos",
+    summary: "Semantic search over every repo ever analyzed.",
+});
+
+app.openapi(searchReposRoute, async (c) => {
+    const { q, limit } = c.req.valid("query");
+    const matches = await searchAnalyzedRepos(c.env, c.get("db"), q, limit);
+    return c.json(matches.map(toResponse));
+});
+
+
+// POST /repos/index
+const reindexReposRoute = createRoute({
+    method: "post",
+    path: "/index",
+    request: {
+        query: z.object({
+            after: z.string().optional().openapi({
+                description: "Continue after this repo URL; pass the previous call's nextAfter.",
+            }),
+            limit: z.coerce.number().int().min(1).max(50).default(20),
+        }),
+    },
+    responses: {
+        200: {
+            description: "The repos (re-)indexed by this call.",
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        indexed: z.array(z.string()),
+                        nextAfter: z.string().nullable(),
+                    }),
+                },
+            },
+        },
+        ...unauthorized,
+    },
+    operationId: "reindexAnalyzedRepos",
+    summary: "Index repos analyzed before similarity search existed, one page at a time.",
+});
+
+app.openapi(reindexReposRoute, async (c) => {
+    const { after, limit } = c.req.valid("query");
+    return c.json(await reindexAnalyzedRepos(c.env, c.get("db"), after, limit));
+});
+
+
+export const reposRouter = app;
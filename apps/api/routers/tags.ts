@@ -0,0 +1,326 @@
+import { createRoute, OpenAPIHono } from "@hono/zod-openapi";
+import { z } from "zod";
+import { repoTags, tags } from "../../../db/schema";
+import { and, asc, desc, eq } from "drizzle-orm";
+import { AppContext } from "../lib/context";
+import { normalizeRepoUrl } from "../lib/favorites";
+
+const app = new OpenAPIHono<AppContext>();
+
+export const tagSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullable(),
+    cssColor: z.string().nullable(),
+    isActive: z.boolean(),
+}).openapi("Tag");
+
+const tagInputSchema = z.object({
+    name: z.string().min(1).max(64),
+    description: z.string().max(500).optional(),
+    cssColor: z.string().regex(/^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/).optional().openapi({
+        description: "A hex color used to render the tag.",
+        example: "#f97316",
+    }),
+});
+
+const tagParams = z.object({
+    id: z.string().openapi({
+        description: "The ID of the tag.",
+    }),
+});
+
+const repoUrlSchema = z.string().url().openapi({
+    example: "https://github.com/honojs/hono",
+});
+
+async function findActiveTag(db: AppContext["Variables"]["db"], id: string) {
+    return db.query.tags.findFirst({
+        where: and(eq(tags.id, id), eq(tags.isActive, true)),
+    });
+}
+
+
+// GET /tags
+const listTagsRoute = createRoute({
+    method: "get",
+    path: "/",
+    responses: {
+        200: {
+            description: "The active tags, by name.",
+            content: {
+                "application/json": {
+                    schema: z.array(tagSchema),
+                },
+            },
+        },
+    },
+    operationId: "listTags",
+    summary: "List all tags.",
+});
+
+app.openapi(listTagsRoute, async (c) => {
+    const db = c.get("db");
+    const rows = await db.query.tags.findMany({
+        where: eq(tags.isActive, true),
+        orderBy: [asc(tags.name)],
+    });
+    return c.json(rows);
+});
+
+
+// POST /tags
+const createTagRoute = createRoute({
+    method: "post",
+    path: "/",
+    request: {
+        body: {
+            content: {
+                "application/json": {
+                    schema: tagInputSchema,
+                },
+            },
+        },
+    },
+    responses: {
+        201: {
+            description: "Tag created. A deleted tag with the same name is restored instead.",
+            content: {
+                "application/json": {
+                    schema: tagSchema,
+                },
+            },
+        },
+        409: {
+            description: "A tag with this name already exists.",
+        },
+    },
+    operationId: "createTag",
+    summary: "Create a tag.",
+});
+
+app.openapi(createTagRoute, async (c) => {
+    const { name, description, cssColor } = c.req.valid("json");
+    const db = c.get("db");
+
+    const existing = await db.query.tags.findFirst({
+        where: eq(tags.name, name),
+    });
+    if (existing?.isActive) {
+        return c.json({ error: `Tag "${name}" already exists` }, 409);
+    }
+
+    const [tag] = existing
+        ? await db.update(tags)
+            .set({ description: description ?? null, cssColor: cssColor ?? null, isActive: true })
+            .where(eq(tags.id, existing.id))
+            .returning()
+        : await db.insert(tags).values({ name, description, cssColor }).returning();
+    return c.json(tag, 201);
+});
+
+
+// PUT /tags/{id}
+const updateTagRoute = createRoute({
+    method: "put",
+    path: "/{id}",
+    request: {
+        params: tagParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: tagInputSchema,
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "Tag updated.",
+            content: {
+                "application/json": {
+                    schema: tagSchema,
+                },
+            },
+        },
+        404: {
+            description: "The tag does not exist.",
+        },
+        409: {
+            description: "Another tag already has this name.",
+        },
+    },
+    operationId: "updateTag",
+    summary: "Rename or recolor a tag.",
+});
+
+app.openapi(updateTagRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const { name, description, cssColor } = c.req.valid("json");
+    const db = c.get("db");
+
+    if (!await findActiveTag(db, id)) {
+        return c.json({ error: "Tag not found" }, 404);
+    }
+    const clash = await db.query.tags.findFirst({
+        where: eq(tags.name, name),
+    });
+    if (clash && clash.id !== id) {
+        return c.json({ error: `Tag "${name}" already exists` }, 409);
+    }
+
+    const [tag] = await db.update(tags)
+        .set({ name, description: description ?? null, cssColor: cssColor ?? null })
+        .where(eq(tags.id, id))
+        .returning();
+    return c.json(tag);
+});
+
+
+// DELETE /tags/{id}
+const deleteTagRoute = createRoute({
+    method: "delete",
+    path: "/{id}",
+    request: {
+        params: tagParams,
+    },
+    responses: {
+        200: {
+            description: "Tag deleted. Repositories keep their tag rows but no longer show the tag.",
+        },
+        404: {
+            description: "The tag does not exist.",
+        },
+    },
+    operationId: "deleteTag",
+    summary: "Delete a tag.",
+});
+
+app.openapi(deleteTagRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    if (!await findActiveTag(db, id)) {
+        return c.json({ error: "Tag not found" }, 404);
+    }
+    await db.update(tags).set({ isActive: false }).where(eq(tags.id, id));
+    return c.json({ message: "Tag deleted" });
+});
+
+
+// GET /tags/{id}/repos
+const listTaggedReposRoute = createRoute({
+    method: "get",
+    path: "/{id}/repos",
+    request: {
+        params: tagParams,
+    },
+    responses: {
+        200: {
+            description: "The repositories carrying this tag, most recently tagged first.",
+            content: {
+                "application/json": {
+                    schema: z.array(z.object({
+                        repoUrl: z.string(),
+                        timestamp: z.string(),
+                    })),
+                },
+            },
+        },
+        404: {
+            description: "The tag does not exist.",
+        },
+    },
+    operationId: "listTaggedRepos",
+    summary: "List the repositories with a tag.",
+});
+
+app.openapi(listTaggedReposRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const db = c.get("db");
+    if (!await findActiveTag(db, id)) {
+        return c.json({ error: "Tag not found" }, 404);
+    }
+    const rows = await db.query.repoTags.findMany({
+        where: and(eq(repoTags.tagId, id), eq(repoTags.isActive, true)),
+        orderBy: [desc(repoTags.timestamp)],
+    });
+    return c.json(rows.map((r) => ({ repoUrl: r.repoUrl, timestamp: r.timestamp.toISOString() })));
+});
+
+
+// POST /tags/{id}/repos
+const tagRepoRoute = createRoute({
+    method: "post",
+    path: "/{id}/repos",
+    request: {
+        params: tagParams,
+        body: {
+            content: {
+                "application/json": {
+                    schema: z.object({
+                        repoUrl: repoUrlSchema,
+                    }),
+                },
+            },
+        },
+    },
+    responses: {
+        200: {
+            description: "The repository is tagged. Tagging it again is a no-op.",
+        },
+        404: {
+            description: "The tag does not exist.",
+        },
+    },
+    operationId: "tagRepo",
+    summary: "Tag a repository.",
+});
+
+app.openapi(tagRepoRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const repoUrl = normalizeRepoUrl(c.req.valid("json").repoUrl);
+    const db = c.get("db");
+    if (!await findActiveTag(db, id)) {
+        return c.json({ error: "Tag not found" }, 404);
+    }
+    await db.insert(repoTags)
+        .values({ tagId: id, repoUrl })
+        .onConflictDoUpdate({
+            target: [repoTags.tagId, repoTags.repoUrl],
+            set: { isActive: true, timestamp: new Date() },
+        });
+    return c.json({ message: "Repository tagged" });
+});
+
+
+// DELETE /tags/{id}/repos
+const untagRepoRoute = createRoute({
+    method: "delete",
+    path: "/{id}/repos",
+    request: {
+        params: tagParams,
+        query: z.object({
+            repoUrl: repoUrlSchema,
+        }),
+    },
+    responses: {
+        200: {
+            description: "The tag is removed from the repository.",
+        },
+    },
+    operationId: "untagRepo",
+    summary: "Remove a tag from a repository.",
+});
+
+app.openapi(untagRepoRoute, async (c) => {
+    const { id } = c.req.valid("param");
+    const repoUrl = normalizeRepoUrl(c.req.valid("query").repoUrl);
+    const db = c.get("db");
+    await db.update(repoTags)
+        .set({ isActive: false })
+        .where(and(eq(repoTags.tagId, id), eq(repoTags.repoUrl, repoUrl)));
+    return c.json({ message: "Tag removed" });
+});
+
+
+export const tagsRouter = app;
@@ -14,6 +14,7 @@ import type { Env } from "./lib/env.js";
 import { OrchestratorAgent } from "./lib/agents/orchestrator.js";
 import { GithubAnalystAgent } from "./lib/agents/analyst.js";
 import { JudgeAgent } from "./lib/agents/judge.js";
+import { logWatchlistError, logWatchlistRun, runWatchlist } from "./lib/watchlist.js";
 
 
 type CloudflareEnv = {
@@ -61,6 +62,20 @@ worker.get("/api/agent/connect", (c) => {
 // Mount the core API app
 worker.route("/", app);
 
-export default worker;
+export default {
+  fetch: worker.fetch,
+
+  // Cron trigger: re-check favorited repositories and report what changed.
+  async scheduled(_controller, env, ctx) {
+    const db = createDb(env.HYPERDRIVE_DIRECT);
+    ctx.waitUntil(
+      runWatchlist(env, db)
+        .then((result) => logWatchlistRun(env, result))
+        .catch((error: unknown) =>
+          logWatchlistError(env, "Watchlist run failed.", error),
+        ),
+    );
+  },
+} satisfies ExportedHandler<CloudflareEnv>;
 
 export { OrchestratorAgent, GithubAnalystAgent, JudgeAgent };
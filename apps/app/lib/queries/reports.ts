@@ -0,0 +1,44 @@
+/**
+ * @file Generated search-result reports, listed from the agent API.
+ *
+ * Reports are created by exporting a search's results
+ * (GET /api/agent/results/{requestId}/export); this module only reads them.
+ */
+
+import { queryOptions, useQuery } from "@tanstack/react-query";
+
+export type ReportFormat = "md" | "csv" | "json";
+
+export interface ReportSummary {
+  id: string;
+  requestId: string;
+  format: ReportFormat;
+  title: string;
+  size: number;
+  createdAt: string;
+}
+
+const apiUrl = import.meta.env.VITE_API_URL || "/api";
+
+export const reportsQueryKey = ["agent", "reports"] as const;
+
+export function reportsQueryOptions() {
+  return queryOptions<ReportSummary[]>({
+    queryKey: reportsQueryKey,
+    queryFn: async () => {
+      const response = await fetch(`${apiUrl}/agent/reports`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch reports");
+      return response.json();
+    },
+  });
+}
+
+export function useReportsQuery() {
+  return useQuery(reportsQueryOptions());
+}
+
+export function reportDownloadUrl(reportId: string): string {
+  return `${apiUrl}/agent/reports/${reportId}/download`;
+}
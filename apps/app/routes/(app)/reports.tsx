@@ -12,50 +12,64 @@ import {
   SelectValue,
 } from "@repo/ui";
 import { createFileRoute } from "@tanstack/react-router";
-import { Calendar, Download, FileText, Filter } from "lucide-react";
+import { Calendar, Download, FileText } from "lucide-react";
+import { useState } from "react";
+import {
+  reportDownloadUrl,
+  useReportsQuery,
+  type ReportFormat,
+} from "@/lib/queries/reports";
 
 export const Route = createFileRoute("/(app)/reports")({
   component: Reports,
 });
 
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  md: "Markdown",
+  csv: "CSV",
+  json: "JSON",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Earliest creation time shown for each date range option.
+function rangeStart(range: string): number {
+  switch (range) {
+    case "7days":
+      return Date.now() - 7 * DAY_MS;
+    case "30days":
+      return Date.now() - 30 * DAY_MS;
+    case "90days":
+      return Date.now() - 90 * DAY_MS;
+    case "year":
+      return new Date(new Date().getFullYear(), 0, 1).getTime();
+    default:
+      return 0;
+  }
+}
+
+function formatSize(bytes: number): string {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
 function Reports() {
-  const reports = [
-    {
-      id: 1,
-      name: "Monthly Sales Report",
-      type: "Sales",
-      date: "2024-01-01",
-      status: "Ready",
-    },
-    {
-      id: 2,
-      name: "User Activity Report",
-      type: "Analytics",
-      date: "2024-01-15",
-      status: "Ready",
-    },
-    {
-      id: 3,
-      name: "Financial Summary",
-      type: "Finance",
-      date: "2024-01-20",
-      status: "Processing",
-    },
-    {
-      id: 4,
-      name: "Performance Metrics",
-      type: "Performance",
-      date: "2024-01-25",
-      status: "Ready",
-    },
-  ];
+  const { data: reports = [], isLoading, error } = useReportsQuery();
+  const [format, setFormat] = useState("all");
+  const [range, setRange] = useState("all");
+
+  const since = rangeStart(range);
+  const visible = reports.filter(
+    (report) =>
+      (format === "all" || report.format === format) &&
+      new Date(report.createdAt).getTime() >= since,
+  );
 
   return (
     <div className="p-6 space-y-6">
       <div>
         <h2 className="text-2xl font-bold">Reports</h2>
         <p className="text-muted-foreground">
-          Generate and download various reports for your data.
+          Download reports exported from your GitHub searches.
         </p>
       </div>
 
@@ -64,31 +78,31 @@ function Reports() {
         <CardHeader>
           <CardTitle>Filters</CardTitle>
           <CardDescription>
-            Filter reports by type and date range
+            Filter reports by format and date range
           </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col sm:flex-row gap-4">
             <div className="flex-1">
-              <Select>
+              <Select value={format} onValueChange={setFormat}>
                 <SelectTrigger>
-                  <SelectValue placeholder="Select report type" />
+                  <SelectValue placeholder="Select format" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All Types</SelectItem>
-                  <SelectItem value="sales">Sales</SelectItem>
-                  <SelectItem value="analytics">Analytics</SelectItem>
-                  <SelectItem value="finance">Finance</SelectItem>
-                  <SelectItem value="performance">Performance</SelectItem>
+                  <SelectItem value="all">All Formats</SelectItem>
+                  <SelectItem value="md">Markdown</SelectItem>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div className="flex-1">
-              <Select>
+              <Select value={range} onValueChange={setRange}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select date range" />
                 </SelectTrigger>
                 <SelectContent>
+                  <SelectItem value="all">All time</SelectItem>
                   <SelectItem value="7days">Last 7 days</SelectItem>
                   <SelectItem value="30days">Last 30 days</SelectItem>
                   <SelectItem value="90days">Last 90 days</SelectItem>
@@ -96,53 +110,34 @@ function Reports() {
                 </SelectContent>
               </Select>
             </div>
-            <Button className="gap-2">
-              <Filter className="h-4 w-4" />
-              Apply Filters
-            </Button>
           </div>
         </CardContent>
       </Card>
 
-      {/* Report Generation */}
+      {/* Generated Reports */}
       <Card>
         <CardHeader>
-          <CardTitle>Generate New Report</CardTitle>
+          <CardTitle>Generated Reports</CardTitle>
           <CardDescription>
-            Create a custom report based on your needs
+            Reports are created when a search's results are exported
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
-            <Button variant="outline" className="h-24 flex-col gap-2">
-              <FileText className="h-6 w-6" />
-              <span>Sales Report</span>
-            </Button>
-            <Button variant="outline" className="h-24 flex-col gap-2">
-              <FileText className="h-6 w-6" />
-              <span>User Report</span>
-            </Button>
-            <Button variant="outline" className="h-24 flex-col gap-2">
-              <FileText className="h-6 w-6" />
-              <span>Financial Report</span>
-            </Button>
-            <Button variant="outline" className="h-24 flex-col gap-2">
-              <FileText className="h-6 w-6" />
-              <span>Custom Report</span>
-            </Button>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Recent Reports */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Reports</CardTitle>
-          <CardDescription>Your recently generated reports</CardDescription>
-        </CardHeader>
         <CardContent>
           <div className="space-y-4">
-            {reports.map((report) => (
+            {isLoading && (
+              <p className="text-sm text-muted-foreground">Loading reports…</p>
+            )}
+            {error && (
+              <p className="text-sm text-destructive">
+                Could not load reports: {error.message}
+              </p>
+            )}
+            {!isLoading && !error && visible.length === 0 && (
+              <p className="text-sm text-muted-foreground">
+                No reports match these filters.
+              </p>
+            )}
+            {visible.map((report) => (
               <div
                 key={report.id}
                 className="flex items-center justify-between p-4 border rounded-lg"
@@ -150,34 +145,22 @@ function Reports() {
                 <div className="flex items-center gap-4">
                   <FileText className="h-8 w-8 text-muted-foreground" />
                   <div>
-                    <p className="font-medium">{report.name}</p>
+                    <p className="font-medium">{report.title}</p>
                     <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                      <span>{report.type}</span>
+                      <span>{FORMAT_LABELS[report.format]}</span>
+                      <span>{formatSize(report.size)}</span>
                       <span className="flex items-center gap-1">
                         <Calendar className="h-3 w-3" />
-                        {report.date}
+                        {new Date(report.createdAt).toLocaleDateString()}
                       </span>
                     </div>
                   </div>
                 </div>
-                <div className="flex items-center gap-2">
-                  <span
-                    className={`px-2 py-1 text-xs rounded-full ${
-                      report.status === "Ready"
-                        ? "bg-green-100 text-green-700"
-                        : "bg-yellow-100 text-yellow-700"
-                    }`}
-                  >
-                    {report.status}
-                  </span>
-                  <Button
-                    size="sm"
-                    variant="ghost"
-                    disabled={report.status !== "Ready"}
-                  >
+                <Button size="sm" variant="ghost" asChild>
+                  <a href={reportDownloadUrl(report.id)} download>
                     <Download className="h-4 w-4" />
-                  </Button>
-                </div>
+                  </a>
+                </Button>
               </div>
             ))}
           </div>
@@ -0,0 +1,2 @@
+ALTER TABLE "github_requests" ADD COLUMN "checkpoint" jsonb;--> statement-breakpoint
+ALTER TABLE "github_requests" ADD COLUMN "updated_at" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "repo_analysis" ADD COLUMN "judge_verdict" text;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "judge_reasoning" text;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "enrichment_request" text;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "enrichment_rounds" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "search_configs" ADD COLUMN "enrichment_rounds" integer DEFAULT 2 NOT NULL;
\ No newline at end of file
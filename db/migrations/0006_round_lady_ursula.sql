@@ -0,0 +1,2 @@
+ALTER TABLE "repo_analysis" ADD COLUMN "dependencies" jsonb;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "tooling" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "repo_analysis" ADD COLUMN "health" jsonb;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "repo_analysis_cache" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"repo_url" text NOT NULL,
+	"head_sha" text NOT NULL,
+	"ai_summary" text,
+	"ai_pros_cons" jsonb,
+	"stars" integer,
+	"tech_stack" jsonb,
+	"dependencies" jsonb,
+	"tooling" jsonb,
+	"health" jsonb,
+	"analyzed_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "repo_analysis_cache_repo_sha_unique" UNIQUE("repo_url","head_sha")
+);
+--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "head_sha" text;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD COLUMN "cache_id" text;--> statement-breakpoint
+ALTER TABLE "search_configs" ADD COLUMN "analysis_cache_ttl_hours" integer DEFAULT 168 NOT NULL;--> statement-breakpoint
+ALTER TABLE "repo_analysis" ADD CONSTRAINT "repo_analysis_cache_id_repo_analysis_cache_id_fk" FOREIGN KEY ("cache_id") REFERENCES "public"."repo_analysis_cache"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
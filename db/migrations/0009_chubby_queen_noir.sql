@@ -0,0 +1 @@
+ALTER TABLE "github_requests" ADD COLUMN "created_at" timestamp with time zone DEFAULT now() NOT NULL;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "reports" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"request_id" text NOT NULL,
+	"format" text NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_request_id_github_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."github_requests"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reports" ADD CONSTRAINT "reports_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "github_requests" ADD COLUMN "parent_id" text;--> statement-breakpoint
+ALTER TABLE "github_requests" ADD CONSTRAINT "github_requests_parent_id_github_requests_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."github_requests"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
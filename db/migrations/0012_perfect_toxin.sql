@@ -0,0 +1,3 @@
+ALTER TABLE "favorites" ADD CONSTRAINT "favorites_user_repo_unique" UNIQUE("user_id","repo_url");--> statement-breakpoint
+ALTER TABLE "repo_tags" ADD CONSTRAINT "repo_tags_tag_repo_unique" UNIQUE("tag_id","repo_url");--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_name_unique" UNIQUE("name");
\ No newline at end of file
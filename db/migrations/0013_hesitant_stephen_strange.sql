@@ -0,0 +1,27 @@
+CREATE TABLE "collection_repos" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"collection_id" text NOT NULL,
+	"repo_url" text NOT NULL,
+	"rationale" text NOT NULL,
+	"analysis_id" text,
+	"added_by" text,
+	"added_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "collection_repos_collection_repo_unique" UNIQUE("collection_id","repo_url")
+);
+--> statement-breakpoint
+CREATE TABLE "collections" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"organization_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "collections_org_name_unique" UNIQUE("organization_id","name")
+);
+--> statement-breakpoint
+ALTER TABLE "collection_repos" ADD CONSTRAINT "collection_repos_collection_id_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_repos" ADD CONSTRAINT "collection_repos_analysis_id_repo_analysis_id_fk" FOREIGN KEY ("analysis_id") REFERENCES "public"."repo_analysis"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collection_repos" ADD CONSTRAINT "collection_repos_added_by_user_id_fk" FOREIGN KEY ("added_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_organization_id_organization_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."organization"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collections" ADD CONSTRAINT "collections_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
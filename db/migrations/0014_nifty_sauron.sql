@@ -0,0 +1,18 @@
+CREATE TABLE "repo_change_events" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"repo_url" text NOT NULL,
+	"kind" text NOT NULL,
+	"summary" text NOT NULL,
+	"previous" jsonb,
+	"current" jsonb,
+	"detected_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"notified_at" timestamp with time zone
+);
+--> statement-breakpoint
+CREATE TABLE "repo_watch_snapshots" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"repo_url" text NOT NULL,
+	"snapshot" jsonb NOT NULL,
+	"checked_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "repo_watch_snapshots_repo_url_unique" UNIQUE("repo_url")
+);
@@ -0,0 +1,21 @@
+CREATE TABLE "chat_messages" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"request_id" text NOT NULL,
+	"role" text NOT NULL,
+	"content" text NOT NULL,
+	"citations" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "repo_file_cache" (
+	"id" text PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"repo_url" text NOT NULL,
+	"path" text NOT NULL,
+	"kind" text NOT NULL,
+	"content" text NOT NULL,
+	"head_sha" text,
+	"fetched_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "repo_file_cache_repo_path_unique" UNIQUE("repo_url","path")
+);
+--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_request_id_github_requests_id_fk" FOREIGN KEY ("request_id") REFERENCES "public"."github_requests"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
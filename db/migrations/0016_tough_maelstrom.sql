@@ -0,0 +1 @@
+ALTER TABLE "hitl_reviews" ADD COLUMN "carried_from" text;
\ No newline at end of file
@@ -1,6 +1,7 @@
 
 import { relations, sql } from "drizzle-orm";
-import { boolean, integer, jsonb, pgTable, text, timestamp } from "drizzle-orm/pg-core";
+import { boolean, integer, jsonb, pgTable, text, timestamp, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { organization } from "./organization";
 import { user } from "./user";
 
 // Sessions: id, user_id, created_at.
@@ -10,16 +11,23 @@ export const sessions = pgTable("sessions", {
     createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
 });
 
-// Requests: id (uuid), query, status (pending, hitl, processing, completed), config (json - search base, min_stars, language), session_id.
+// Requests: id (uuid), query, status (pending, hitl, processing, completed), config (json - search base, min_stars, language), session_id,
+// checkpoint (json - the orchestrator's phase cursor and per-phase outputs, used to resume an interrupted run),
+// parent_id (the request this one re-runs, if any), created_at, updated_at.
 export const githubRequests = pgTable("github_requests", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
     query: text("query").notNull(),
     status: text("status").notNull().default("pending"),
     config: jsonb("config"),
     sessionId: text("session_id").notNull().references(() => sessions.id),
+    checkpoint: jsonb("checkpoint"),
+    parentId: text("parent_id").references((): AnyPgColumn => githubRequests.id),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" }).defaultNow().$onUpdate(() => new Date()).notNull(),
 });
 
-// HITL_Reviews: id, request_id, repo_snapshot_json, user_verdict (boolean), rationale (text), status (pending, reviewed).
+// HITL_Reviews: id, request_id, repo_snapshot_json, user_verdict (boolean), rationale (text), status (pending, reviewed),
+// carried_from (on a re-run: the parent search's review the verdict was copied from).
 export const hitlReviews = pgTable("hitl_reviews", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
     requestId: text("request_id").notNull().references(() => githubRequests.id),
@@ -27,9 +35,14 @@ export const hitlReviews = pgTable("hitl_reviews", {
     userVerdict: boolean("user_verdict"),
     rationale: text("rationale"),
     status: text("status").notNull().default("pending"),
+    carriedFrom: text("carried_from"),
 });
 
-// Repo_Analysis: id, request_id, repo_url, agent_id, status (analyzing, complete), ai_ranking (int), ai_summary (text), ai_pros_cons (json), stars (int), tech_stack (json).
+// Repo_Analysis: id, request_id, repo_url, agent_id, status (analyzing, complete), ai_ranking (int), ai_summary (text), ai_pros_cons (json), stars (int), tech_stack (json),
+// dependencies (json - parsed from the repo's manifests), tooling (json - ecosystems, runtimes, build/CI/deploy tooling),
+// health (json - last commit, release cadence, issue ratio, PR merge time, contributors, bus factor, archived/fork),
+// judge_verdict (approved, rejected), judge_reasoning (text), enrichment_request (text - the judge's last instruction), enrichment_rounds (int - re-analyses done for the judge),
+// head_sha (the commit analyzed), cache_id (the repo_analysis_cache entry this row was re-ranked from, if any).
 export const repoAnalysis = pgTable("repo_analysis", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
     requestId: text("request_id").notNull().references(() => githubRequests.id),
@@ -41,9 +54,72 @@ export const repoAnalysis = pgTable("repo_analysis", {
     aiProsCons: jsonb("ai_pros_cons"),
     stars: integer("stars"),
     techStack: jsonb("tech_stack"),
+    dependencies: jsonb("dependencies"),
+    tooling: jsonb("tooling"),
+    health: jsonb("health"),
+    judgeVerdict: text("judge_verdict"),
+    judgeReasoning: text("judge_reasoning"),
+    enrichmentRequest: text("enrichment_request"),
+    enrichmentRounds: integer("enrichment_rounds").default(0).notNull(),
+    headSha: text("head_sha"),
+    cacheId: text("cache_id").references(() => repoAnalysisCache.id),
+});
+
+// Repo_Analysis_Cache: id, repo_url, head_sha, the query-independent part of an analysis (ai_summary, ai_pros_cons, stars, tech_stack, dependencies, tooling, health), analyzed_at.
+// Shared across requests: a fresh entry for the repo's current HEAD is re-ranked instead of re-analyzed.
+export const repoAnalysisCache = pgTable("repo_analysis_cache", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    repoUrl: text("repo_url").notNull(),
+    headSha: text("head_sha").notNull(),
+    aiSummary: text("ai_summary"),
+    aiProsCons: jsonb("ai_pros_cons"),
+    stars: integer("stars"),
+    techStack: jsonb("tech_stack"),
+    dependencies: jsonb("dependencies"),
+    tooling: jsonb("tooling"),
+    health: jsonb("health"),
+    analyzedAt: timestamp("analyzed_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+}, (table) => [
+    unique("repo_analysis_cache_repo_sha_unique").on(table.repoUrl, table.headSha),
+]);
+
+// Repo_File_Cache: id, repo_url, path, kind (readme, manifest), content, head_sha (the commit it was read at, if known), fetched_at.
+// The README and manifests an analyst read, latest version per repo and path; follow-up chat quotes and cites them.
+export const repoFileCache = pgTable("repo_file_cache", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    repoUrl: text("repo_url").notNull(),
+    path: text("path").notNull(),
+    kind: text("kind").notNull(),
+    content: text("content").notNull(),
+    headSha: text("head_sha"),
+    fetchedAt: timestamp("fetched_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+}, (table) => [
+    unique("repo_file_cache_repo_path_unique").on(table.repoUrl, table.path),
+]);
+
+// Chat_Messages: id, request_id, role (user, assistant), content, citations (json - the repos and files an answer cites), created_at.
+// The follow-up conversation about a request's results, replayed as memory on every new question.
+export const chatMessages = pgTable("chat_messages", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    requestId: text("request_id").notNull().references(() => githubRequests.id),
+    role: text("role").notNull(),
+    content: text("content").notNull(),
+    citations: jsonb("citations"),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+});
+
+// Reports: id, request_id, format (md, csv, json), title, content (the generated file), created_by (user_id), created_at.
+export const reports = pgTable("reports", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    requestId: text("request_id").notNull().references(() => githubRequests.id),
+    format: text("format").notNull(),
+    title: text("title").notNull(),
+    content: text("content").notNull(),
+    createdBy: text("created_by").references(() => user.id),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
 });
 
-// Favorites: id, user_id, repo_url, notes, is_active, timestamp.
+// Favorites: id, user_id, repo_url, notes, is_active, timestamp. One row per user and repo; unfavoriting deactivates it.
 export const favorites = pgTable("favorites", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
     userId: text("user_id").references(() => user.id),
@@ -51,26 +127,78 @@ export const favorites = pgTable("favorites", {
     notes: text("notes"),
     isActive: boolean("is_active").default(true).notNull(),
     timestamp: timestamp("timestamp", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
-});
+}, (table) => [
+    unique("favorites_user_repo_unique").on(table.userId, table.repoUrl),
+]);
 
-// Tags: id, name, description, css_color, is_active.
+// Tags: id, name (unique), description, css_color, is_active.
 export const tags = pgTable("tags", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
-    name: text("name").notNull(),
+    name: text("name").notNull().unique(),
     description: text("description"),
     cssColor: text("css_color"),
     isActive: boolean("is_active").default(true).notNull(),
 });
 
-// Repo_Tags: id, tag_id, repo_url, timestamp, is_active.
+// Repo_Tags: id, tag_id, repo_url, timestamp, is_active. One row per tag and repo; untagging deactivates it.
 export const repoTags = pgTable("repo_tags", {
     id: text("id").primaryKey().default(sql`gen_random_uuid()`),
     tagId: text("tag_id").notNull().references(() => tags.id),
     repoUrl: text("repo_url").notNull(),
     timestamp: timestamp("timestamp", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
     isActive: boolean("is_active").default(true).notNull(),
+}, (table) => [
+    unique("repo_tags_tag_repo_unique").on(table.tagId, table.repoUrl),
+]);
+
+// Repo_Watch_Snapshots: repo_url (unique), snapshot (json - archived, last commit, latest release, license, stars, health), checked_at.
+// The last state the watchlist saw for a favorited repo; each run diffs against it.
+export const repoWatchSnapshots = pgTable("repo_watch_snapshots", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    repoUrl: text("repo_url").notNull().unique(),
+    snapshot: jsonb("snapshot").notNull(),
+    checkedAt: timestamp("checked_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
 });
 
+// Repo_Change_Events: id, repo_url, kind (archived, unarchived, went_quiet, major_release, license_changed), summary, previous (json), current (json), detected_at, notified_at.
+export const repoChangeEvents = pgTable("repo_change_events", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    repoUrl: text("repo_url").notNull(),
+    kind: text("kind").notNull(),
+    summary: text("summary").notNull(),
+    previous: jsonb("previous"),
+    current: jsonb("current"),
+    detectedAt: timestamp("detected_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+    notifiedAt: timestamp("notified_at", { withTimezone: true, mode: "date" }),
+});
+
+// Collections: id, organization_id, name (unique per organization), description, created_by (user_id), created_at, updated_at.
+// A named repo shortlist shared by every member of the owning organization.
+export const collections = pgTable("collections", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    organizationId: text("organization_id").notNull().references(() => organization.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    description: text("description"),
+    createdBy: text("created_by").references(() => user.id),
+    createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" }).defaultNow().$onUpdate(() => new Date()).notNull(),
+}, (table) => [
+    unique("collections_org_name_unique").on(table.organizationId, table.name),
+]);
+
+// Collection_Repos: id, collection_id, repo_url, rationale, analysis_id (the search result it was added from, if any), added_by (user_id), added_at.
+export const collectionRepos = pgTable("collection_repos", {
+    id: text("id").primaryKey().default(sql`gen_random_uuid()`),
+    collectionId: text("collection_id").notNull().references(() => collections.id, { onDelete: "cascade" }),
+    repoUrl: text("repo_url").notNull(),
+    rationale: text("rationale").notNull(),
+    analysisId: text("analysis_id").references(() => repoAnalysis.id),
+    addedBy: text("added_by").references(() => user.id),
+    addedAt: timestamp("added_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
+}, (table) => [
+    unique("collection_repos_collection_repo_unique").on(table.collectionId, table.repoUrl),
+]);
+
 // --- Relations ---
 
 export const githubRequestsRelations = relations(githubRequests, ({ one, many }) => ({
@@ -78,8 +206,16 @@ export const githubRequestsRelations = relations(githubRequests, ({ one, many })
         fields: [githubRequests.sessionId],
         references: [sessions.id],
     }),
+    parent: one(githubRequests, {
+        fields: [githubRequests.parentId],
+        references: [githubRequests.id],
+        relationName: "reruns",
+    }),
+    reruns: many(githubRequests, { relationName: "reruns" }),
     hitlReviews: many(hitlReviews),
     repoAnalysis: many(repoAnalysis),
+    reports: many(reports),
+    chatMessages: many(chatMessages),
 }));
 
 export const sessionsRelations = relations(sessions, ({ one, many }) => ({
@@ -102,6 +238,35 @@ export const repoAnalysisRelations = relations(repoAnalysis, ({ one }) => ({
         fields: [repoAnalysis.requestId],
         references: [githubRequests.id],
     }),
+    cache: one(repoAnalysisCache, {
+        fields: [repoAnalysis.cacheId],
+        references: [repoAnalysisCache.id],
+    }),
+}));
+
+export const repoAnalysisCacheRelations = relations(repoAnalysisCache, ({ many }) => ({
+    analyses: many(repoAnalysis),
+}));
+
+export const chatMessagesRelations = relations(chatMessages, ({ one }) => ({
+    request: one(githubRequests, {
+        fields: [chatMessages.requestId],
+        references: [githubRequests.id],
+    }),
+}));
+
+export const reportsRelations = relations(reports, ({ one }) => ({
+    request: one(githubRequests, {
+        fields: [reports.requestId],
+        references: [githubRequests.id],
+    }),
+}));
+
+export const favoritesRelations = relations(favorites, ({ one }) => ({
+    user: one(user, {
+        fields: [favorites.userId],
+        references: [user.id],
+    }),
 }));
 
 export const tagsRelations = relations(tags, ({ many }) => ({
@@ -114,3 +279,30 @@ export const repoTagsRelations = relations(repoTags, ({ one }) => ({
         references: [tags.id],
     }),
 }));
+
+export const collectionsRelations = relations(collections, ({ one, many }) => ({
+    organization: one(organization, {
+        fields: [collections.organizationId],
+        references: [organization.id],
+    }),
+    creator: one(user, {
+        fields: [collections.createdBy],
+        references: [user.id],
+    }),
+    repos: many(collectionRepos),
+}));
+
+export const collectionReposRelations = relations(collectionRepos, ({ one }) => ({
+    collection: one(collections, {
+        fields: [collectionRepos.collectionId],
+        references: [collections.id],
+    }),
+    analysis: one(repoAnalysis, {
+        fields: [collectionRepos.analysisId],
+        references: [repoAnalysis.id],
+    }),
+    addedByUser: one(user, {
+        fields: [collectionRepos.addedBy],
+        references: [user.id],
+    }),
+}));
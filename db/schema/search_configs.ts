@@ -7,6 +7,9 @@ export const searchConfigs = pgTable("search_configs", {
     name: text("name").notNull().unique(),
     config: jsonb("config").notNull(),
     reposToAnalyze: integer("repos_to_analyze").default(20).notNull(),
+    enrichmentRounds: integer("enrichment_rounds").default(2).notNull(),
+    // How long a cached repo analysis stays reusable; 0 always re-analyzes.
+    analysisCacheTtlHours: integer("analysis_cache_ttl_hours").default(168).notNull(),
     isDefault: boolean("is_default").default(false).notNull(),
     createdAt: timestamp("created_at", { withTimezone: true, mode: "date" }).defaultNow().notNull(),
     updatedAt: timestamp("updated_at", { withTimezone: true, mode: "date" }).defaultNow().$onUpdate(() => new Date()).notNull(),
@@ -0,0 +1,209 @@
+/**
+ * WebSocket message schemas for the agent pipeline.
+ *
+ * The search agents (orchestrator, analysts, judge) run as Durable Objects and
+ * talk plain JSON over their sockets rather than the WS-Kit envelope, so these
+ * are bare Zod schemas. They depend on nothing but Zod and can be imported from
+ * the worker without pulling in WS-Kit.
+ *
+ * - Events are broadcast by an agent to every connected client as { type, payload }.
+ * - Commands are sent to an agent by a client (or by the orchestrator to its analysts).
+ * - Replies are sent back on the socket a command arrived on.
+ *
+ * @example
+ * ```ts
+ * import { AgentEvent } from "@repo/ws-protocol/agent";
+ *
+ * socket.onmessage = (e) => {
+ *   const event = AgentEvent.parse(JSON.parse(e.data));
+ *   if (event.type === "status") console.log(event.payload.status);
+ * };
+ * ```
+ */
+
+import { z } from "zod";
+
+// ============================================================================
+// Events (agent -> clients)
+// ============================================================================
+
+/**
+ * A request log entry, mirrored from request_logs.
+ */
+export const AgentLogEvent = z.object({
+  type: z.literal("log"),
+  payload: z.object({
+    requestId: z.string(),
+    level: z.enum(["debug", "info", "warn", "error"]),
+    message: z.string(),
+    data: z.unknown().optional(),
+    ts: z.string(),
+  }),
+});
+
+/**
+ * Progress of a request, between 0 and 1.
+ */
+export const AgentProgressEvent = z.object({
+  type: z.literal("progress"),
+  payload: z.object({
+    requestId: z.string(),
+    progress: z.number(),
+    stats: z.unknown().optional(),
+  }),
+});
+
+// A repo_analysis row as sent in a final status.
+const AnalysisResult = z
+  .object({
+    id: z.string(),
+    repoUrl: z.string(),
+    aiRanking: z.number().nullable(),
+  })
+  .passthrough();
+
+/**
+ * A status change. The orchestrator's final "completed" status also carries
+ * the approved results and the ones the judge rejected. A search that ran out
+ * of budget ends with "budget_exhausted" instead, its reason in `errorText`,
+ * and also carries the shortlisted results the judge never reviewed.
+ */
+export const AgentStatusEvent = z.object({
+  type: z.literal("status"),
+  payload: z.object({
+    requestId: z.string(),
+    status: z.string(),
+    errorText: z.string().optional(),
+    results: z.array(AnalysisResult).optional(),
+    rejected: z.array(AnalysisResult).optional(),
+    unjudged: z.array(AnalysisResult).optional(),
+  }),
+});
+
+/**
+ * Repositories waiting for human-in-the-loop review.
+ */
+export const AgentHitlEvent = z.object({
+  type: z.literal("hitl"),
+  payload: z.object({
+    requestId: z.string(),
+    reviews: z.array(
+      z
+        .object({
+          id: z.string(),
+          requestId: z.string(),
+          repoSnapshotJson: z.unknown(),
+        })
+        .passthrough(),
+    ),
+  }),
+});
+
+/**
+ * A piece of an answer being streamed, e.g. a follow-up chat reply. The deltas
+ * of one answer share a streamId and arrive in order; the last one has
+ * `done: true` and an empty delta, and `error: true` if the answer failed.
+ */
+export const AgentChatDeltaEvent = z.object({
+  type: z.literal("chat_delta"),
+  payload: z.object({
+    requestId: z.string().optional(),
+    streamId: z.string(),
+    delta: z.string(),
+    done: z.boolean().optional(),
+    error: z.boolean().optional(),
+  }),
+});
+
+export const AgentEvent = z.discriminatedUnion("type", [
+  AgentLogEvent,
+  AgentProgressEvent,
+  AgentStatusEvent,
+  AgentHitlEvent,
+  AgentChatDeltaEvent,
+]);
+
+// ============================================================================
+// Commands (client -> agent)
+// ============================================================================
+
+/**
+ * A follow-up question about a finished search, sent to the orchestrator.
+ */
+export const ChatCommand = z.object({
+  type: z.literal("chat"),
+  requestId: z.string(),
+  query: z.string(),
+});
+
+/**
+ * Guidance from the orchestrator to its analysts, applied to the next analysis step.
+ */
+export const CorrectionCommand = z.object({
+  type: z.literal("correction"),
+  message: z.string(),
+});
+
+/**
+ * Tells an analyst to stop because the search was paused or cancelled.
+ */
+export const AbortCommand = z.object({
+  type: z.literal("abort"),
+  reason: z.enum(["paused", "cancelled"]),
+});
+
+export const OrchestratorCommand = z.discriminatedUnion("type", [ChatCommand]);
+
+export const AnalystCommand = z.discriminatedUnion("type", [
+  CorrectionCommand,
+  AbortCommand,
+]);
+
+// ============================================================================
+// Replies (agent -> the client that sent a command)
+// ============================================================================
+
+export const HelloReply = z.object({
+  type: z.literal("hello"),
+  msg: z.string(),
+});
+
+export const AckReply = z.object({
+  type: z.literal("ack"),
+});
+
+/**
+ * A repo, or a file in it, that a chat answer cites inline as [ref].
+ */
+export const ChatCitation = z.object({
+  ref: z.number(),
+  repoUrl: z.string(),
+  path: z.string().nullable(),
+  url: z.string(),
+});
+
+export const ChatReply = z.object({
+  type: z.literal("chat"),
+  messageId: z.string(),
+  answer: z.string(),
+  citations: z.array(ChatCitation),
+});
+
+export const ErrorReply = z.object({
+  type: z.literal("error"),
+  message: z.string(),
+});
+
+// ============================================================================
+// Type Exports
+// ============================================================================
+
+export type AgentEvent = z.infer<typeof AgentEvent>;
+export type AgentEventType = AgentEvent["type"];
+export type AgentEventPayload<T extends AgentEventType> = Extract<
+  AgentEvent,
+  { type: T }
+>["payload"];
+export type OrchestratorCommand = z.infer<typeof OrchestratorCommand>;
+export type ChatCitation = z.infer<typeof ChatCitation>;
+export type AnalystCommand = z.infer<typeof AnalystCommand>;
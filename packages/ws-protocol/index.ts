@@ -10,4 +10,5 @@
  */
 
 export * from "./messages";
+export * from "./agent";
 export * from "./router";